@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAdaptiveTimeout } from './adaptive-timeout';
+import { createCompositionBuffer } from './composition-buffer';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'timp-adaptive-'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('AdaptiveTimeout', () => {
+  it('uses the fallback until a language has enough gaps', () => {
+    const adaptive = createAdaptiveTimeout(50, { minSamples: 3 });
+    adaptive.record('chinese', 60);
+    adaptive.record('chinese', 70);
+    expect(adaptive.timeoutFor('chinese')).toBe(50);
+
+    adaptive.record('chinese', 80);
+    expect(adaptive.timeoutFor('chinese')).toBe(80);
+    expect(adaptive.timeoutFor('japanese')).toBe(50);
+  });
+
+  it('keeps the deadline at the percentile, between min and max', () => {
+    const adaptive = createAdaptiveTimeout(50, { minSamples: 1, percentile: 0.5, min: 30 });
+    for (const gap of [10, 40, 60, 70]) adaptive.record(null, gap);
+    expect(adaptive.timeoutFor(null)).toBe(40);
+
+    const low = createAdaptiveTimeout(50, { minSamples: 1, min: 30 });
+    low.record(null, 5);
+    expect(low.timeoutFor(null)).toBe(30);
+  });
+
+  it('drops gaps over max or long enough to be pauses between words', () => {
+    const adaptive = createAdaptiveTimeout(50, { minSamples: 1, max: 200 });
+    adaptive.record('korean', 101);
+    adaptive.record('korean', 250);
+    expect(adaptive.summary()).toEqual({});
+
+    adaptive.record('korean', 100);
+    expect(adaptive.summary()).toEqual({ korean: { timeout: 100, samples: 1 } });
+  });
+
+  it('saves learned gaps and loads them in the next session', () => {
+    const stateFile = path.join(dir, 'state', 'timing.json');
+    const first = createAdaptiveTimeout(50, { minSamples: 2, stateFile });
+    first.record('vietnamese', 40);
+    first.record('vietnamese', 45);
+    first.save();
+
+    const second = createAdaptiveTimeout(50, { minSamples: 2, stateFile });
+    expect(second.timeoutFor('vietnamese')).toBe(45);
+  });
+
+  it('ignores a state file in an unknown format', () => {
+    const stateFile = path.join(dir, 'timing.json');
+    fs.writeFileSync(stateFile, '{"version":2,"gaps":{"chinese":[90]}}');
+
+    expect(createAdaptiveTimeout(50, { minSamples: 1, stateFile }).summary()).toEqual({});
+  });
+});
+
+describe('CompositionBuffer with adaptive timeout', () => {
+  function create() {
+    const flushes: string[] = [];
+    const buffer = createCompositionBuffer({
+      compositionTimeout: 50,
+      adaptive: { minSamples: 1 },
+      onFlush: (text) => flushes.push(text),
+      onRegularInput: () => {},
+    });
+    return { buffer, flushes };
+  }
+
+  it('learns the gap after a timeout flush that cut a composition short', () => {
+    vi.useFakeTimers();
+    const { buffer, flushes } = create();
+
+    buffer.process('你', true, 'chinese');
+    vi.advanceTimersByTime(70);
+    buffer.process('好', true, 'chinese');
+
+    expect(flushes).toEqual(['你']);
+    expect(buffer.getAdaptiveSummary()).toEqual({ chinese: { timeout: 70, samples: 1 } });
+    buffer.destroy();
+  });
+
+  it('does not learn the gap after a commit made on purpose', () => {
+    vi.useFakeTimers();
+    const { buffer } = create();
+
+    buffer.process('你', true, 'chinese');
+    buffer.flush('enter');
+    vi.advanceTimersByTime(30);
+    buffer.process('好', true, 'chinese');
+
+    expect(buffer.getAdaptiveSummary()).toEqual({});
+    buffer.destroy();
+  });
+});
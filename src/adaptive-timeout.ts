@@ -0,0 +1,219 @@
+/**
+ * Adaptive Timeout
+ * Learns the gaps between IME chunks per language and keeps the
+ * composition flush deadline near a percentile of them
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface AdaptiveTimeoutOptions {
+  /**
+   * Percentile of observed gaps to use as the deadline (0-1)
+   * Default: 0.95
+   */
+  percentile?: number;
+
+  /**
+   * Lower bound for the learned timeout in ms
+   * Default: 20ms
+   */
+  min?: number;
+
+  /**
+   * Upper bound for the learned timeout in ms; longer gaps are
+   * treated as pauses and not learned
+   * Default: 200ms
+   */
+  max?: number;
+
+  /**
+   * Gaps longer than this multiple of the current timeout are treated as
+   * pauses between words and not learned, so the timeout can grow when
+   * it cuts compositions short but doesn't drift toward max
+   * Default: 2
+   */
+  pauseFactor?: number;
+
+  /**
+   * Gaps kept per language
+   * Default: 100
+   */
+  sampleSize?: number;
+
+  /**
+   * Gaps needed before a language uses its learned timeout
+   * Default: 10
+   */
+  minSamples?: number;
+
+  /**
+   * File to load learned gaps from and save them to (optional)
+   */
+  stateFile?: string;
+
+  /**
+   * Optional callback for debug logging
+   */
+  onDebug?: (message: string) => void;
+}
+
+/**
+ * Persisted state
+ */
+interface AdaptiveTimeoutState {
+  version: 1;
+  gaps: Record<string, number[]>;
+}
+
+const UNKNOWN_LANGUAGE = 'unknown';
+
+/**
+ * Default location for learned timings
+ * $XDG_STATE_HOME/terminal-ime-proxy/timing.json, else ~/.local/state/...
+ */
+export function getDefaultStateFile(env: NodeJS.ProcessEnv = process.env): string {
+  const base = env.XDG_STATE_HOME || path.join(os.homedir(), '.local', 'state');
+  return path.join(base, 'terminal-ime-proxy', 'timing.json');
+}
+
+export class AdaptiveTimeout {
+  private gaps = new Map<string, number[]>();
+  private fallback: number;
+
+  private options: Required<Omit<AdaptiveTimeoutOptions, 'onDebug' | 'stateFile'>> & Pick<AdaptiveTimeoutOptions, 'onDebug' | 'stateFile'>;
+
+  constructor(fallback: number, options: AdaptiveTimeoutOptions = {}) {
+    this.fallback = fallback;
+    this.options = {
+      percentile: options.percentile ?? 0.95,
+      min: options.min ?? 20,
+      max: options.max ?? 200,
+      pauseFactor: options.pauseFactor ?? 2,
+      sampleSize: options.sampleSize ?? 100,
+      minSamples: options.minSamples ?? 10,
+      stateFile: options.stateFile,
+      onDebug: options.onDebug,
+    };
+
+    if (this.options.stateFile) {
+      this.load(this.options.stateFile);
+    }
+  }
+
+  /**
+   * Record the gap between two IME chunks
+   * Gaps over max or pauseFactor times the current timeout are dropped
+   */
+  public record(language: string | null, gap: number): void {
+    if (gap < 0 || gap > this.options.max || gap > this.options.pauseFactor * this.timeoutFor(language)) {
+      return;
+    }
+
+    const key = language ?? UNKNOWN_LANGUAGE;
+    const samples = this.gaps.get(key) ?? [];
+    samples.push(Math.round(gap));
+    if (samples.length > this.options.sampleSize) {
+      samples.shift();
+    }
+    this.gaps.set(key, samples);
+  }
+
+  /**
+   * Current timeout for a language
+   */
+  public timeoutFor(language: string | null): number {
+    const samples = this.gaps.get(language ?? UNKNOWN_LANGUAGE);
+    if (!samples || samples.length < this.options.minSamples) {
+      return this.fallback;
+    }
+
+    const sorted = [...samples].sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.ceil(this.options.percentile * sorted.length) - 1);
+    const value = sorted[Math.max(0, index)];
+
+    return Math.min(this.options.max, Math.max(this.options.min, value));
+  }
+
+  /**
+   * Change the timeout used until a language has enough samples
+   */
+  public setFallback(timeout: number): void {
+    this.fallback = timeout;
+  }
+
+  /**
+   * Learned timeout per language, for reporting
+   */
+  public summary(): Record<string, { timeout: number; samples: number }> {
+    const result: Record<string, { timeout: number; samples: number }> = {};
+    for (const [language, samples] of this.gaps) {
+      result[language] = { timeout: this.timeoutFor(language), samples: samples.length };
+    }
+    return result;
+  }
+
+  /**
+   * Save learned gaps to the state file, if one is configured
+   */
+  public save(): void {
+    const file = this.options.stateFile;
+    if (!file) return;
+
+    const state: AdaptiveTimeoutState = {
+      version: 1,
+      gaps: Object.fromEntries(this.gaps),
+    };
+
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(state) + '\n');
+      this.debug(`Saved timings to ${file}`);
+    } catch (e) {
+      this.debug(`Could not save timings to ${file}: ${(e as Error).message}`);
+    }
+  }
+
+  private load(file: string): void {
+    let state: Partial<AdaptiveTimeoutState>;
+    try {
+      state = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.debug(`Ignoring unreadable timings in ${file}: ${(e as Error).message}`);
+      }
+      return;
+    }
+
+    if (state.version !== 1 || typeof state.gaps !== 'object' || state.gaps === null) {
+      this.debug(`Ignoring timings in ${file}: unknown format`);
+      return;
+    }
+
+    for (const [language, samples] of Object.entries(state.gaps)) {
+      if (Array.isArray(samples)) {
+        const valid = samples.filter((gap) => typeof gap === 'number' && gap >= 0);
+        this.gaps.set(language, valid.slice(-this.options.sampleSize));
+      }
+    }
+
+    this.debug(`Loaded timings from ${file}: ${JSON.stringify(this.summary())}`);
+  }
+
+  /**
+   * Debug logging helper
+   */
+  private debug(message: string): void {
+    if (this.options.onDebug) {
+      this.options.onDebug(`[AdaptiveTimeout] ${message}`);
+    }
+  }
+}
+
+/**
+ * Factory function for creating an adaptive timeout
+ */
+export function createAdaptiveTimeout(fallback: number, options?: AdaptiveTimeoutOptions): AdaptiveTimeout {
+  return new AdaptiveTimeout(fallback, options);
+}
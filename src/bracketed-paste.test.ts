@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BracketedPaste, BracketedPasteOptions, PASTE_END, PASTE_START } from './bracketed-paste';
+
+function createPaste(options: Partial<BracketedPasteOptions> = {}) {
+  const pastes: string[] = [];
+  const inputs: string[] = [];
+  const paste = new BracketedPaste({
+    onPaste: (text) => pastes.push(text),
+    onInput: (text) => inputs.push(text),
+    ...options,
+  });
+  return { paste, pastes, inputs };
+}
+
+describe('BracketedPaste', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('separates pasted text from the input around it', () => {
+    const { paste, pastes, inputs } = createPaste();
+
+    paste.process(`a${PASTE_START}你好\rworld${PASTE_END}b`);
+
+    expect(pastes).toEqual(['你好\rworld']);
+    expect(inputs).toEqual(['a', 'b']);
+    expect(paste.isPasting()).toBe(false);
+  });
+
+  it('finds markers split across chunks', () => {
+    const { paste, pastes, inputs } = createPaste();
+
+    paste.process('x\x1b[20');
+    paste.process('0~pasted\x1b[2');
+    expect(paste.isPasting()).toBe(true);
+    paste.process('01~');
+
+    expect(inputs).toEqual(['x']);
+    expect(pastes).toEqual(['pasted']);
+  });
+
+  it('releases a held partial start marker as input after the marker timeout', () => {
+    vi.useFakeTimers();
+    const { paste, inputs } = createPaste();
+
+    paste.process('a\x1b[2');
+    expect(inputs).toEqual(['a']);
+
+    vi.advanceTimersByTime(25);
+    expect(inputs).toEqual(['a', '\x1b[2']);
+  });
+
+  it('normalizes line endings and composition in normalize mode', () => {
+    const { paste, pastes } = createPaste({ pasteMode: 'normalize' });
+
+    paste.process(`${PASTE_START}a\r\nb\nviệt${PASTE_END}`);
+
+    expect(pastes).toEqual(['a\rb\rviệt']);
+  });
+
+  it('removes escape sequences and control characters in strip mode', () => {
+    const { paste, pastes } = createPaste({ pasteMode: 'strip' });
+
+    paste.process(`${PASTE_START}\x1b[31mred\x1b[0m\x07\tok${PASTE_END}`);
+
+    expect(pastes).toEqual(['red\tok']);
+  });
+
+  it('releases a paste without an end marker after the paste timeout', () => {
+    vi.useFakeTimers();
+    const { paste, pastes, inputs } = createPaste({ pasteTimeout: 100 });
+
+    paste.process(`${PASTE_START}lost`);
+    vi.advanceTimersByTime(99);
+    expect(pastes).toEqual([]);
+
+    vi.advanceTimersByTime(1);
+    expect(pastes).toEqual(['lost']);
+    expect(paste.isPasting()).toBe(false);
+
+    paste.process('typed');
+    expect(inputs).toEqual(['typed']);
+  });
+
+  it('restarts the paste timeout while the paste keeps arriving', () => {
+    vi.useFakeTimers();
+    const { paste, pastes } = createPaste({ pasteTimeout: 100 });
+
+    paste.process(`${PASTE_START}one `);
+    vi.advanceTimersByTime(80);
+    paste.process('two');
+    vi.advanceTimersByTime(80);
+
+    expect(pastes).toEqual([]);
+    paste.process(PASTE_END);
+    expect(pastes).toEqual(['one two']);
+  });
+
+  it('releases a paste that reaches the size cap', () => {
+    const { paste, pastes } = createPaste({ maxPasteSize: 8 });
+
+    paste.process(`${PASTE_START}1234`);
+    expect(pastes).toEqual([]);
+    paste.process('56789');
+
+    expect(pastes).toEqual(['123456789']);
+    expect(paste.isPasting()).toBe(false);
+  });
+
+  it('strips end markers from text it wraps', () => {
+    expect(BracketedPaste.wrap(`a${PASTE_END}b`)).toBe(`${PASTE_START}ab${PASTE_END}`);
+  });
+});
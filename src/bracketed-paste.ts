@@ -0,0 +1,270 @@
+/**
+ * Bracketed Paste
+ * Detects pasted text wrapped in ESC[200~ ... ESC[201~ across stdin chunks
+ * so it can bypass IME composition as one unit
+ */
+
+export const PASTE_START = '\x1b[200~';
+export const PASTE_END = '\x1b[201~';
+
+/**
+ * How pasted text is transformed before it reaches the app
+ * - raw: forwarded unchanged
+ * - normalize: line endings become CR (as typed), text is NFC-normalized
+ * - strip: normalize, then remove escape sequences and control characters
+ */
+export type PasteMode = 'raw' | 'normalize' | 'strip';
+
+export interface BracketedPasteOptions {
+  /**
+   * Transformation applied to pasted text
+   * Default: 'raw'
+   */
+  pasteMode?: PasteMode;
+
+  /**
+   * Time in ms to hold a possible cut-off start marker at the end of
+   * a chunk before treating it as regular input
+   * Default: 25ms
+   */
+  markerTimeout?: number;
+
+  /**
+   * Time in ms without input after which an unfinished paste is released
+   * as it is, in case the terminal never sends the end marker
+   * Default: 1000ms
+   */
+  pasteTimeout?: number;
+
+  /**
+   * Characters at which an unfinished paste is released as it is
+   * Default: 8M
+   */
+  maxPasteSize?: number;
+
+  /**
+   * Callback with the complete pasted text
+   */
+  onPaste: (text: string) => void;
+
+  /**
+   * Callback for input outside of a paste
+   */
+  onInput: (text: string) => void;
+
+  /**
+   * Optional callback for debug logging
+   */
+  onDebug?: (message: string) => void;
+}
+
+export class BracketedPaste {
+  private inPaste = false;
+  private payload = '';
+  private carry = '';
+  private carryTimer: NodeJS.Timeout | null = null;
+  private pasteTimer: NodeJS.Timeout | null = null;
+
+  private options: Required<Omit<BracketedPasteOptions, 'onDebug'>> & { onDebug?: (msg: string) => void };
+  private readonly DEFAULT_MARKER_TIMEOUT = 25; // ms
+  private readonly DEFAULT_PASTE_TIMEOUT = 1000; // ms
+  private readonly DEFAULT_MAX_PASTE_SIZE = 8 * 1024 * 1024;
+
+  constructor(options: BracketedPasteOptions) {
+    this.options = {
+      pasteMode: options.pasteMode ?? 'raw',
+      markerTimeout: options.markerTimeout ?? this.DEFAULT_MARKER_TIMEOUT,
+      pasteTimeout: options.pasteTimeout ?? this.DEFAULT_PASTE_TIMEOUT,
+      maxPasteSize: options.maxPasteSize ?? this.DEFAULT_MAX_PASTE_SIZE,
+      onPaste: options.onPaste,
+      onInput: options.onInput,
+      onDebug: options.onDebug,
+    };
+  }
+
+  /**
+   * Process incoming input
+   * Input outside a paste goes to onInput, pasted text to onPaste
+   */
+  public process(input: string): void {
+    this.clearCarryTimer();
+    this.clearPasteTimer();
+    let text = this.carry + input;
+    this.carry = '';
+
+    while (text) {
+      if (this.inPaste) {
+        const end = text.indexOf(PASTE_END);
+        if (end === -1) {
+          // Keep a cut-off end marker for the next chunk
+          const partial = this.partialMarker(text, PASTE_END);
+          this.payload += text.slice(0, text.length - partial.length);
+          this.carry = partial;
+          if (this.payload.length >= this.options.maxPasteSize) {
+            this.debug(`Paste reached ${this.options.maxPasteSize} chars without an end marker, releasing it`);
+            this.releasePaste();
+            return;
+          }
+          this.debug(`Paste continues, ${this.payload.length} chars so far`);
+          this.pasteTimer = setTimeout(() => {
+            this.pasteTimer = null;
+            this.debug(`No end marker after ${this.options.pasteTimeout}ms, releasing paste`);
+            this.releasePaste();
+          }, this.options.pasteTimeout);
+          return;
+        }
+
+        this.payload += text.slice(0, end);
+        text = text.slice(end + PASTE_END.length);
+        this.finishPaste();
+        continue;
+      }
+
+      const start = text.indexOf(PASTE_START);
+      if (start === -1) {
+        // A lone trailing ESC is left to the tokenizer's Escape handling
+        const partial = text.endsWith('\x1b') ? '' : this.partialMarker(text, PASTE_START);
+        const before = text.slice(0, text.length - partial.length);
+        if (before) {
+          this.options.onInput(before);
+        }
+        if (partial) {
+          this.holdCarry(partial);
+        }
+        return;
+      }
+
+      if (start > 0) {
+        this.options.onInput(text.slice(0, start));
+      }
+      this.debug('Paste started');
+      this.inPaste = true;
+      this.payload = '';
+      text = text.slice(start + PASTE_START.length);
+    }
+  }
+
+  /**
+   * Check if a paste is in progress
+   */
+  public isPasting(): boolean {
+    return this.inPaste;
+  }
+
+  /**
+   * Change how pasted text is transformed
+   */
+  public setPasteMode(mode: PasteMode): void {
+    this.options.pasteMode = mode;
+  }
+
+  /**
+   * Wrap text in paste markers for an app that enabled bracketed paste
+   */
+  public static wrap(text: string): string {
+    return PASTE_START + text.split(PASTE_END).join('') + PASTE_END;
+  }
+
+  /**
+   * Cleanup resources
+   */
+  public destroy(): void {
+    this.clearCarryTimer();
+    this.clearPasteTimer();
+  }
+
+  private finishPaste(): void {
+    const text = this.transform(this.payload);
+    this.debug(`Paste finished: ${this.payload.length} chars (${this.options.pasteMode})`);
+    this.inPaste = false;
+    this.payload = '';
+    this.options.onPaste(text);
+  }
+
+  /**
+   * Give up waiting for the end marker: what was collected (with a held
+   * partial marker) is the paste, and input after it is typing again
+   */
+  private releasePaste(): void {
+    this.payload += this.carry;
+    this.carry = '';
+    this.finishPaste();
+  }
+
+  /**
+   * Apply the configured paste mode
+   */
+  private transform(text: string): string {
+    if (this.options.pasteMode === 'raw') {
+      return text;
+    }
+
+    let result = text.replace(/\r\n|\n/g, '\r').normalize('NFC');
+
+    if (this.options.pasteMode === 'strip') {
+      result = result
+        .replace(/\x1b(\[[0-?]*[ -/]*[@-~]|\][^\x07\x1b]*(\x07|\x1b\\)|.)/g, '')
+        .replace(/[\x00-\x08\x0B-\x0C\x0E-\x1F\x7F\u0080-\u009F]/g, '');
+    }
+
+    return result;
+  }
+
+  /**
+   * Longest suffix of text that is a prefix of marker
+   */
+  private partialMarker(text: string, marker: string): string {
+    for (let len = Math.min(marker.length - 1, text.length); len > 0; len--) {
+      const suffix = text.slice(-len);
+      if (marker.startsWith(suffix)) {
+        return suffix;
+      }
+    }
+    return '';
+  }
+
+  /**
+   * Hold a possible start marker briefly, then release it as input
+   */
+  private holdCarry(partial: string): void {
+    this.carry = partial;
+    this.carryTimer = setTimeout(() => {
+      this.carryTimer = null;
+      const text = this.carry;
+      this.carry = '';
+      if (text) {
+        this.options.onInput(text);
+      }
+    }, this.options.markerTimeout);
+  }
+
+  private clearCarryTimer(): void {
+    if (this.carryTimer) {
+      clearTimeout(this.carryTimer);
+      this.carryTimer = null;
+    }
+  }
+
+  private clearPasteTimer(): void {
+    if (this.pasteTimer) {
+      clearTimeout(this.pasteTimer);
+      this.pasteTimer = null;
+    }
+  }
+
+  /**
+   * Debug logging helper
+   */
+  private debug(message: string): void {
+    if (this.options.onDebug) {
+      this.options.onDebug(`[BracketedPaste] ${message}`);
+    }
+  }
+}
+
+/**
+ * Factory function for creating a bracketed paste detector
+ */
+export function createBracketedPaste(options: BracketedPasteOptions): BracketedPaste {
+  return new BracketedPaste(options);
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { charWidth, fitEnd, fitStart, stringWidth } from './char-width';
+
+describe('charWidth', () => {
+  it('counts wide characters as two cells and marks as none', () => {
+    expect(charWidth('a')).toBe(1);
+    expect(charWidth('你')).toBe(2);
+    expect(charWidth('한')).toBe(2);
+    expect(charWidth('😀')).toBe(2);
+    expect(charWidth('\u0301')).toBe(0);
+    expect(charWidth('\u200d')).toBe(0);
+  });
+});
+
+describe('stringWidth', () => {
+  it('adds up the cells of mixed text', () => {
+    expect(stringWidth('ab你好')).toBe(6);
+    expect(stringWidth('vie\u0302\u0323t')).toBe(4);
+  });
+});
+
+describe('fitStart', () => {
+  it('keeps the longest start that fits', () => {
+    expect(fitStart('你好吗', 5)).toBe('你好');
+    expect(fitStart('abc', 10)).toBe('abc');
+    expect(fitStart('你', 1)).toBe('');
+  });
+});
+
+describe('fitEnd', () => {
+  it('keeps the longest end that fits', () => {
+    expect(fitEnd('你好吗', 5)).toBe('好吗');
+    expect(fitEnd('abc', 2)).toBe('bc');
+  });
+
+  it('does not start with a mark cut off from its letter', () => {
+    expect(fitEnd('你\u0301', 1)).toBe('');
+    expect(fitEnd('xa\u0301', 1)).toBe('a\u0301');
+  });
+});
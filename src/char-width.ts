@@ -0,0 +1,135 @@
+/**
+ * Character Width
+ * Terminal cells taken by text: East Asian wide and fullwidth characters
+ * take two, combining marks and zero-width characters none
+ */
+
+/**
+ * Code point ranges displayed two cells wide
+ */
+const WIDE_RANGES: ReadonlyArray<[number, number]> = [
+  [0x1100, 0x115f], // Hangul Jamo initials
+  [0x231a, 0x231b],
+  [0x2329, 0x232a],
+  [0x23e9, 0x23ec],
+  [0x23f0, 0x23f0],
+  [0x23f3, 0x23f3],
+  [0x25fd, 0x25fe],
+  [0x2614, 0x2615],
+  [0x2648, 0x2653],
+  [0x267f, 0x267f],
+  [0x2693, 0x2693],
+  [0x26a1, 0x26a1],
+  [0x26aa, 0x26ab],
+  [0x26bd, 0x26be],
+  [0x26c4, 0x26c5],
+  [0x26ce, 0x26ce],
+  [0x26d4, 0x26d4],
+  [0x26ea, 0x26ea],
+  [0x26f2, 0x26f3],
+  [0x26f5, 0x26f5],
+  [0x26fa, 0x26fa],
+  [0x26fd, 0x26fd],
+  [0x2705, 0x2705],
+  [0x270a, 0x270b],
+  [0x2728, 0x2728],
+  [0x274c, 0x274c],
+  [0x274e, 0x274e],
+  [0x2753, 0x2755],
+  [0x2757, 0x2757],
+  [0x2795, 0x2797],
+  [0x27b0, 0x27b0],
+  [0x27bf, 0x27bf],
+  [0x2b1b, 0x2b1c],
+  [0x2b50, 0x2b50],
+  [0x2b55, 0x2b55],
+  [0x2e80, 0x303e], // CJK radicals, punctuation
+  [0x3041, 0x33ff], // Kana, Bopomofo, Hangul compatibility jamo, CJK symbols
+  [0x3400, 0x4dbf], // CJK extension A
+  [0x4e00, 0x9fff], // CJK unified ideographs
+  [0xa000, 0xa4cf], // Yi
+  [0xa960, 0xa97f], // Hangul Jamo extended A
+  [0xac00, 0xd7a3], // Hangul syllables
+  [0xf900, 0xfaff], // CJK compatibility ideographs
+  [0xfe10, 0xfe19], // Vertical forms
+  [0xfe30, 0xfe6f], // CJK compatibility forms, small forms
+  [0xff00, 0xff60], // Fullwidth forms
+  [0xffe0, 0xffe6],
+  [0x1f300, 0x1f64f], // Emoji
+  [0x1f680, 0x1f6ff],
+  [0x1f900, 0x1f9ff],
+  [0x1fa70, 0x1faff],
+  [0x20000, 0x2fffd], // CJK extensions B-F
+  [0x30000, 0x3fffd],
+];
+
+/**
+ * Characters that take no cell of their own
+ */
+const ZERO_WIDTH = /^[\p{M}\p{Cc}\p{Cf}\u{FE00}-\u{FE0F}]$/u;
+
+/**
+ * Cells taken by one character
+ */
+export function charWidth(char: string): number {
+  if (ZERO_WIDTH.test(char)) {
+    return 0;
+  }
+
+  const codePoint = char.codePointAt(0) ?? 0;
+  for (const [start, end] of WIDE_RANGES) {
+    if (codePoint < start) break;
+    if (codePoint <= end) return 2;
+  }
+  return 1;
+}
+
+/**
+ * Cells taken by a string
+ */
+export function stringWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    width += charWidth(char);
+  }
+  return width;
+}
+
+/**
+ * Longest start of a string that fits in a number of cells
+ */
+export function fitStart(text: string, cells: number): string {
+  let width = 0;
+  let end = 0;
+  const chars = [...text];
+
+  while (end < chars.length) {
+    const next = width + charWidth(chars[end]);
+    if (next > cells) break;
+    width = next;
+    end++;
+  }
+  return chars.slice(0, end).join('');
+}
+
+/**
+ * Longest end of a string that fits in a number of cells
+ */
+export function fitEnd(text: string, cells: number): string {
+  const chars = [...text];
+  let width = 0;
+  let start = chars.length;
+
+  while (start > 0) {
+    const next = width + charWidth(chars[start - 1]);
+    if (next > cells) break;
+    width = next;
+    start--;
+  }
+
+  // Don't leave combining marks without their base
+  while (start < chars.length && charWidth(chars[start]) === 0) {
+    start++;
+  }
+  return chars.slice(start).join('');
+}
@@ -0,0 +1,510 @@
+/**
+ * Command Line Interface
+ * Parses flags, resolves config and profiles, and starts the proxy
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import { ProxyExit, TerminalIMEProxy } from './terminal-ime-proxy';
+import {
+  ConfigError,
+  ProxySettings,
+  SettingKey,
+  getConfigPath,
+  loadConfig,
+  parseSetting,
+  profileNameFor,
+  resolveSettings,
+} from './config';
+import { RecordingError, readRecording } from './session-recorder';
+import { formatStats } from './session-stats';
+import { formatReplayReport, replaySession } from './session-replay';
+import { analyzeCalibration, formatCalibration, formatChecks, recordCalibration, runChecks } from './doctor';
+
+/**
+ * Flags that set a proxy setting, by flag name
+ */
+const SETTING_FLAGS: Record<string, SettingKey> = {
+  '--timeout': 'compositionTimeout',
+  '-t': 'compositionTimeout',
+  '--commit': 'commitStrategy',
+  '--edit-window': 'editWindow',
+  '--paste': 'pasteMode',
+  '--normalize': 'normalization',
+  '--engine': 'engine',
+  '--tone-style': 'toneStyle',
+  '--preedit-style': 'preeditStyle',
+  '--prefix-key': 'prefixKey',
+  '--focus-out': 'focusOut',
+  '--control-socket': 'controlSocket',
+  '--middleware': 'middleware',
+  '--log-file': 'logFile',
+  '--log-level': 'logLevel',
+  '--stats-file': 'statsFile',
+};
+
+export interface ParsedArgs {
+  settings: ProxySettings;
+  profile?: string;
+  configPath?: string;
+  command: string[];
+}
+
+/**
+ * Parse command line arguments
+ */
+export function parseArgs(args: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { settings: {}, command: [] };
+  const settings = parsed.settings as Record<string, unknown>;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--debug' || arg === '-d') {
+      parsed.settings.debug = true;
+    } else if (arg === '--adaptive') {
+      parsed.settings.adaptiveTimeout = true;
+    } else if (arg === '--preedit') {
+      parsed.settings.preedit = true;
+    } else if (arg === '--log-redact') {
+      parsed.settings.logRedact = true;
+    } else if (arg === '--stats') {
+      parsed.settings.stats = true;
+    } else if (arg === '--job-control') {
+      parsed.settings.jobControl = true;
+    } else if (SETTING_FLAGS[arg]) {
+      const key = SETTING_FLAGS[arg];
+      settings[key] = parseSetting(key, args[++i], arg);
+    } else if (arg === '--profile') {
+      parsed.profile = requireValue(arg, args[++i]);
+    } else if (arg === '--config') {
+      parsed.configPath = requireValue(arg, args[++i]);
+    } else if (arg === '--help' || arg === '-h') {
+      printHelp();
+      process.exit(0);
+    } else if (arg === '--version' || arg === '-v') {
+      console.log('terminal-ime-proxy v1.0.0');
+      process.exit(0);
+    } else if (arg === '--') {
+      parsed.command = args.slice(i + 1);
+      break;
+    } else {
+      // Rest is command and its arguments
+      parsed.command = args.slice(i);
+      break;
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Main entry point - run from command line
+ */
+export function main(): void {
+  try {
+    run(process.argv.slice(2));
+  } catch (e) {
+    if (e instanceof ConfigError || e instanceof RecordingError) {
+      console.error(`Error: ${e.message}`);
+      process.exit(1);
+    }
+    throw e;
+  }
+}
+
+function run(args: string[]): void {
+  if (args[0] === 'record') {
+    const file = requireValue('record', args[1]);
+    startProxy(args.slice(2), file);
+  } else if (args[0] === 'replay') {
+    replay(args.slice(1));
+  } else if (args[0] === 'doctor') {
+    doctor(args.slice(1));
+  } else {
+    startProxy(args);
+  }
+}
+
+/**
+ * Wrap a command, optionally recording the session
+ */
+function startProxy(args: string[], recordFile?: string): void {
+  const parsed = parseArgs(args);
+
+  if (parsed.command.length === 0) {
+    console.error('Error: No command specified');
+    console.error('Usage: terminal-ime-proxy [options] <command> [args...]');
+    console.error('Run "terminal-ime-proxy --help" for more information');
+    process.exit(1);
+  }
+
+  const command = parsed.command[0];
+  const cmdArgs = parsed.command.slice(1);
+
+  // An explicitly named config file must exist
+  const configPath = parsed.configPath ?? getConfigPath();
+  const required = parsed.configPath !== undefined || process.env.TIMP_CONFIG !== undefined;
+  const config = loadConfig(configPath, required);
+
+  const { settings, profile } = resolveSettings({
+    command,
+    cli: parsed.settings,
+    profile: parsed.profile,
+    config,
+  });
+
+  if (settings.debug) {
+    console.error(`[terminal-ime-proxy] Config: ${configPath}, profile: ${profile ?? 'none'}`);
+  }
+
+  // Create and run proxy
+  const proxy = new TerminalIMEProxy({
+    ...settings,
+    command,
+    args: cmdArgs.length > 0 ? cmdArgs : settings.args,
+    env: settings.env ? { ...process.env, ...settings.env } : undefined,
+    recordFile,
+  });
+
+  proxy.exited
+    .then((exit) => {
+      // The app's exit status matters more than the statistics
+      try {
+        reportStats(proxy, settings);
+      } catch (e) {
+        console.error(`Error: cannot report statistics: ${(e as Error).message}`);
+      }
+      exitLikeApp(exit);
+    })
+    .catch((e: Error) => {
+      console.error(`Error: ${e.message}`);
+      process.exit(1);
+    });
+}
+
+/**
+ * Print the session statistics and/or write them to the stats file
+ */
+function reportStats(proxy: TerminalIMEProxy, settings: ProxySettings): void {
+  const stats = proxy.getStats();
+
+  if (settings.stats) {
+    console.error(formatStats(stats));
+  }
+  if (settings.statsFile) {
+    try {
+      fs.writeFileSync(settings.statsFile, JSON.stringify(stats, null, 2) + '\n');
+    } catch (e) {
+      console.error(`Error: cannot write stats to ${settings.statsFile}: ${(e as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Exit the way the app did: with its status, or killed by the same signal
+ */
+function exitLikeApp({ exitCode, signal }: ProxyExit): void {
+  const name = Object.entries(os.constants.signals).find(([, number]) => number === signal)?.[0];
+
+  if (signal && name) {
+    // The proxy's handlers are gone, so the default action applies
+    process.kill(process.pid, name);
+    // Only reached if the signal doesn't end a process
+    process.exit(128 + signal);
+  }
+  process.exit(exitCode);
+}
+
+/**
+ * Replay a recording and compare what the app receives
+ */
+function replay(args: string[]): void {
+  let file: string | undefined;
+  let speed = 1;
+  let debug = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--speed') {
+      speed = Number(requireValue(arg, args[++i]));
+      if (!Number.isFinite(speed) || speed <= 0) {
+        throw new ConfigError(`"${args[i]}" must be a number > 0`, arg);
+      }
+    } else if (arg === '--debug' || arg === '-d') {
+      debug = true;
+    } else if (file === undefined) {
+      file = arg;
+    } else {
+      throw new ConfigError(`unexpected argument "${arg}"`, 'replay');
+    }
+  }
+
+  const recording = readRecording(requireValue('replay', file));
+  console.log(`Replaying ${recording.header.command.join(' ')} (recorded ${recording.header.startedAt})`);
+  if (recording.header.omitted) {
+    console.error(`Warning: replaying without settings that weren't recorded: ${recording.header.omitted.join(', ')}`);
+  }
+
+  replaySession(recording, {
+    speed,
+    onDebug: debug ? (msg) => console.error(`[terminal-ime-proxy] ${msg}`) : undefined,
+  })
+    .then((result) => {
+      console.log(formatReplayReport(result));
+      process.exit(result.matches ? 0 : 1);
+    })
+    .catch((e: Error) => {
+      console.error(`Error: cannot replay ${file}: ${e.message}`);
+      process.exit(1);
+    });
+}
+
+/**
+ * Check the environment, then calibrate the timeout from typed input
+ */
+function doctor(args: string[]): void {
+  let configPath: string | undefined;
+  let phrase: string | undefined;
+  let calibrate = true;
+  let command: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--config') {
+      configPath = requireValue(arg, args[++i]);
+    } else if (arg === '--phrase') {
+      phrase = requireValue(arg, args[++i]);
+    } else if (arg === '--no-calibrate') {
+      calibrate = false;
+    } else if (command === undefined) {
+      command = arg;
+    } else {
+      throw new ConfigError(`unexpected argument "${arg}"`, 'doctor');
+    }
+  }
+
+  const check = async () => {
+    const checks = await runChecks({ configPath });
+    console.log(formatChecks(checks));
+
+    if (calibrate && process.stdin.isTTY) {
+      console.log(`\nCalibration: switch on your input method, type ${phrase ? `"${phrase}"` : 'a short phrase'}` +
+        ' and press Enter (Esc to skip).\n');
+      const recorded = await recordCalibration(process.stdin, process.stdout);
+      if (recorded) {
+        const profile = command ? profileNameFor(command) : null;
+        console.log(`\n\n${formatCalibration(analyzeCalibration(recorded), profile, phrase)}`);
+      }
+    }
+
+    return checks.some((result) => result.status === 'fail') ? 1 : 0;
+  };
+
+  check()
+    .then((code) => process.exit(code))
+    .catch((e: Error) => {
+      console.error(`Error: doctor failed: ${e.message}`);
+      process.exit(1);
+    });
+}
+
+function requireValue(flag: string, value: string | undefined): string {
+  if (value === undefined) {
+    throw new ConfigError('missing value', flag);
+  }
+  return value;
+}
+
+/**
+ * Print help message
+ */
+function printHelp(): void {
+  console.log(`
+terminal-ime-proxy - Fix IME input for terminal CLI applications
+
+USAGE:
+  terminal-ime-proxy [options] <command> [args...]
+  timp [options] <command> [args...]
+  timp record <file> [options] [--] <command> [args...]
+  timp replay <file> [--speed <n>] [--debug]
+  timp doctor [--phrase <text>] [--no-calibrate] [--config <path>] [command]
+
+OPTIONS:
+  -d, --debug           Enable debug output
+  --job-control         Suspend the proxy and the app on Ctrl+Z instead of
+                        sending it to the app
+  --stats               Print latency and commit statistics on exit
+  --stats-file <path>   Write the statistics to a file as JSON on exit
+  --log-file <path>     Write debug output to a file as JSON lines instead
+                        of over the app (see LOGGING)
+  --log-level <level>   Least important level logged: error, warn, info,
+                        debug or trace (default: debug)
+  --log-redact          Log the length of typed text instead of the text
+  -t, --timeout <ms>    Composition timeout in milliseconds (default: 50)
+  --adaptive            Learn the composition timeout from your typing rhythm
+  --commit <strategy>   When IME text is committed: timer, script-complete
+                        (at once after ideographs, kana and Hangul),
+                        word-boundary (after a space or punctuation) or
+                        hybrid (default: timer)
+  --edit-window <ms>    Wait for IME replacement text after backspaces
+                        (default: 15, 0 to disable)
+  --paste <mode>        Pasted text handling: raw, normalize (line endings,
+                        NFC) or strip (also remove control characters)
+                        (default: raw)
+  --normalize <mode>    Unicode normalization of typed text: none, nfc,
+                        nfd or nfkc (default: none)
+  --engine <name>       Built-in input method for machines without an IME:
+                        telex, vni, viqr or hangul (Ctrl+^ switches it on
+                        and off)
+  --tone-style <style>  Tone placement for --engine: old (hòa) or new (hoà)
+                        (default: old)
+  --preedit             Show the text being composed at the cursor
+  --preedit-style <s>   Pre-edit highlight: underline or reverse
+                        (default: underline)
+  --prefix-key <key>    Key that opens the control menu, e.g. C-] or none
+                        (default: C-])
+  --control-socket <path>
+                        Accept commands from other programs on a Unix
+                        socket (see CONTROL SOCKET)
+  --focus-out <action>  Pending composition when the terminal loses focus:
+                        commit or discard (default: commit)
+  --middleware <list>   Comma-separated middlewares applied to text before
+                        it reaches the app (see MIDDLEWARE)
+  --profile <name>      Use a named profile from the config file
+                        (default: the command's name, if such a profile exists)
+  --config <path>       Config file to use
+  -h, --help            Show this help message
+  -v, --version         Show version number
+
+CONFIG:
+  Settings are read from ~/.config/terminal-ime-proxy/config.json
+  ($XDG_CONFIG_HOME and $TIMP_CONFIG are honoured):
+
+    {
+      "defaults": { "compositionTimeout": 50 },
+      "profiles": {
+        "claude": { "compositionTimeout": 120 },
+        "gemini": { "compositionTimeout": 40, "pasteMode": "normalize" }
+      }
+    }
+
+  Every setting can also be given as an environment variable, e.g.
+  TIMP_COMPOSITION_TIMEOUT=80 or TIMP_DEBUG=1. TIMP_PROFILE selects a profile.
+  Precedence: command line > environment > profile > defaults.
+
+  With "adaptivePersist": true, timings learned by --adaptive are kept in
+  ~/.local/state/terminal-ime-proxy/timing.json.
+
+EXAMPLES:
+  # Run Claude Code with IME fix
+  terminal-ime-proxy claude
+
+  # Run with debug mode
+  terminal-ime-proxy --debug claude
+
+  # Use shorter alias
+  timp claude
+
+  # Run Gemini CLI
+  timp gemini
+
+  # Run with the "pinyin" profile
+  timp --profile pinyin claude
+
+  # Type Vietnamese over SSH, without an OS input method
+  timp --engine telex claude
+
+  # Record a session for a bug report, then replay it at half speed
+  timp record ime-bug.jsonl -- claude
+  timp replay ime-bug.jsonl --speed 0.5
+
+SUPPORTED LANGUAGES:
+  - Vietnamese (Telex, VNI, VIQR)
+  - Chinese (Pinyin, Wubi)
+  - Japanese (Romaji, Hiragana, Katakana)
+  - Korean (2-set Hangul)
+  - Thai, Arabic, Hindi, and more
+
+DESCRIPTION:
+  This tool wraps terminal CLI applications that have issues with
+  IME (Input Method Editor) input, such as Claude Code, Gemini CLI,
+  and other React Ink-based tools.
+
+  It intercepts keyboard input, properly handles IME composition,
+  and forwards the completed text to the wrapped application.
+
+INPUT ENGINE:
+  --engine composes each word in the proxy: "vieetj" (telex), "vie65t" (vni)
+  or "vie^.t" (viqr) becomes "việt" when you type a space or punctuation.
+  Repeat a key to undo it and get the literal letter ("aaa" → "aa", "ww" → "w";
+  "\\" escapes the next key in viqr). Backspace undoes the last keystroke of
+  the word. Ctrl+^ switches between Vietnamese and English.
+
+  --engine hangul is the Korean 2-set (Dubeolsik) layout: "dkssud" becomes
+  "안녕", each syllable committed as soon as the next key starts another
+  one. Backspace removes one jamo at a time.
+
+LOGGING:
+  --debug prints to the terminal the app draws on. With --log-file each
+  record is a JSON line instead, with time, level, component (proxy,
+  buffer, detector, ...), event, hex bytes, the decision made and the
+  buffer. Watch it from another terminal:
+
+    timp --log-file /tmp/timp.log claude
+    tail -f /tmp/timp.log
+
+  Input bytes are logged at the trace level. The file is rotated at
+  10 MiB ("logMaxSize"), keeping 3 old files ("logMaxFiles").
+
+CONTROL MENU:
+  Press Ctrl+] (or --prefix-key) to open a one-line menu at the cursor:
+    b  turn IME buffering on or off     -/+  change the timeout by 10 ms
+    e  switch input engine              n    switch normalization mode
+    d  turn debug output on or off      f/c  flush or clear the buffer
+    Ctrl+] again sends it to the app; any other key closes the menu.
+
+CONTROL SOCKET:
+  With --control-socket, other programs (IME bridges, dictation tools,
+  editor plugins) can drive the proxy with one JSON object per line:
+    {"command":"commit","text":"xin chào"}   send text to the app
+    {"command":"flush"} / {"command":"clear"}  commit or drop the composition
+    {"command":"status"}                      buffer, language, app pid, ...
+    {"command":"set","option":"compositionTimeout","value":80}
+  Each request gets a reply line such as {"ok":true}; an "id" is echoed.
+
+    echo '{"command":"commit","text":"你好"}' | nc -U /tmp/timp.sock
+
+MIDDLEWARE:
+  Middlewares rewrite text between the composition buffer and the app, in
+  the order given. Built-in ones:
+    snippets               expand triggers from the "snippets" setting as
+                           soon as they are typed at the start of a word
+    halfwidth-punctuation  full-width punctuation to ASCII ("，" → ",")
+    strip-smart-quotes     curly quotes to straight ones
+  Any other entry is the path of a JS module exporting
+  (text, { source, reason, language }) => string | null | Promise, where
+  source is "commit", "input" or "other". Return null to drop the text.
+
+    { "defaults": { "middleware": ["snippets", "~/timp-upper.js"],
+                    "snippets": { ";sig": "Best regards," } } }
+
+DOCTOR:
+  "doctor" checks the usual causes of broken IME input: a non-UTF-8 locale,
+  TERM, stdin/stdout not being a terminal, the node-pty native module and
+  the config file. It then asks you to type a phrase with your IME and shows
+  how the chunks arrived, how each was classified, and a recommended
+  compositionTimeout to add to your config (as a profile for [command]).
+
+RECORD AND REPLAY:
+  "record" saves every stdin chunk with its timing, plus what the proxy
+  sent to the app and why, as JSON lines. "replay" feeds the chunks back
+  through the same input pipeline and exits with status 1 if the bytes
+  the app would receive differ from the recording.
+
+MORE INFO:
+  https://github.com/d-init-d/terminal-ime-proxy
+`);
+}
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CommitStrategy, createCommitStrategy } from './commit-strategy';
+import { FlushReason, createCompositionBuffer } from './composition-buffer';
+
+const context = (buffer: string, input = buffer, language: string | null = null) => ({ buffer, input, language });
+
+describe('built-in strategies', () => {
+  it('timer commits only on timeout', () => {
+    const strategy = createCommitStrategy();
+
+    expect(strategy.name).toBe('timer');
+    expect(strategy.onInput(context('你好'))).toBeNull();
+    expect(strategy.onTimeout(context('你好', ''))).toBe('timeout');
+  });
+
+  it('script-complete commits text ending in an ideograph, kana or syllable', () => {
+    const strategy = createCommitStrategy('script-complete');
+
+    expect(strategy.onInput(context('你好'))).toBe('script-complete');
+    expect(strategy.onInput(context('かな'))).toBe('script-complete');
+    expect(strategy.onInput(context('한'))).toBe('script-complete');
+    expect(strategy.onInput(context('你好。'))).toBe('script-complete');
+    expect(strategy.onInput(context('\u1100'))).toBeNull();
+    expect(strategy.onInput(context('việt'))).toBeNull();
+  });
+
+  it('word-boundary commits a chunk ending in a space or punctuation', () => {
+    const strategy = createCommitStrategy('word-boundary');
+
+    expect(strategy.onInput(context('xin chào ', 'chào '))).toBe('word-boundary');
+    expect(strategy.onInput(context('chào,', 'o,'))).toBe('word-boundary');
+    expect(strategy.onInput(context('chào', 'ào'))).toBeNull();
+  });
+
+  it('hybrid combines script-complete and word-boundary', () => {
+    const strategy = createCommitStrategy('hybrid');
+
+    expect(strategy.onInput(context('你'))).toBe('script-complete');
+    expect(strategy.onInput(context('việt ', ' '))).toBe('word-boundary');
+    expect(strategy.onInput(context('việt'))).toBeNull();
+  });
+});
+
+describe('CompositionBuffer with a commit strategy', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('commits when the strategy says so, without waiting for the timer', () => {
+    const flushes: Array<[string, FlushReason]> = [];
+    const buffer = createCompositionBuffer({
+      commitStrategy: createCommitStrategy('hybrid'),
+      onFlush: (text, reason) => flushes.push([text, reason]),
+      onRegularInput: () => {},
+    });
+
+    buffer.process('你好', true, 'chinese');
+    buffer.process('xin', true, 'vietnamese');
+    buffer.process(' ', true, 'vietnamese');
+
+    expect(flushes).toEqual([['你好', 'script-complete'], ['xin ', 'word-boundary']]);
+    buffer.destroy();
+  });
+
+  it('keeps waiting while a custom strategy declines the timeout', () => {
+    const flushes: string[] = [];
+    let ready = false;
+    const strategy: CommitStrategy = {
+      name: 'custom',
+      onInput: () => null,
+      onTimeout: () => (ready ? 'timeout' : null),
+    };
+    const buffer = createCompositionBuffer({
+      compositionTimeout: 50,
+      commitStrategy: strategy,
+      onFlush: (text) => flushes.push(text),
+      onRegularInput: () => {},
+    });
+
+    buffer.process('你', true);
+    vi.advanceTimersByTime(200);
+    expect(flushes).toEqual([]);
+
+    ready = true;
+    vi.advanceTimersByTime(50);
+    expect(flushes).toEqual(['你']);
+    buffer.destroy();
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Commit Strategies
+ * Decide when the composition buffer commits: the buffer asks its strategy
+ * after every IME chunk and every time its timer fires
+ */
+
+import type { FlushReason } from './composition-buffer';
+import { splitGraphemes } from './grapheme';
+
+/**
+ * Built-in strategies
+ * - timer: commit when the IME has been quiet for the timeout
+ * - script-complete: commit as soon as the buffer ends in an ideograph,
+ *   kana or precomposed Hangul syllable; the timer covers the rest
+ * - word-boundary: commit when a chunk ends in a space or punctuation;
+ *   the timer covers the rest
+ * - hybrid: script-complete and word-boundary together, then the timer
+ */
+export type CommitStrategyName = 'timer' | 'script-complete' | 'word-boundary' | 'hybrid';
+
+export const COMMIT_STRATEGIES: readonly CommitStrategyName[] = ['timer', 'script-complete', 'word-boundary', 'hybrid'];
+
+/**
+ * What a strategy sees
+ */
+export interface CommitContext {
+  /**
+   * Everything buffered, the new chunk included
+   */
+  buffer: string;
+
+  /**
+   * The chunk just added (empty on a timer tick)
+   */
+  input: string;
+
+  /**
+   * Language of the buffered text, if detected
+   */
+  language: string | null;
+}
+
+/**
+ * Decides when buffered text is committed; each method returns the reason
+ * to commit now, or null to keep waiting
+ */
+export interface CommitStrategy {
+  readonly name: string;
+
+  /**
+   * Called after IME input was added to the buffer
+   */
+  onInput(context: CommitContext): FlushReason | null;
+
+  /**
+   * Called when the composition timeout ran out; waiting means another
+   * timeout, and a strategy that never commits here leaves the text
+   * buffered until other input ends the composition
+   */
+  onTimeout(context: CommitContext): FlushReason | null;
+}
+
+/**
+ * Characters no IME changes once sent: ideographs, kana, precomposed
+ * Hangul syllables and CJK punctuation
+ */
+const COMPLETE_CHARACTER = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\uAC00-\uD7A3\u3001-\u303F\uFF01-\uFF60]$/u;
+
+/**
+ * End of a word: whitespace or punctuation
+ */
+const WORD_BOUNDARY = /[\s\p{P}]$/u;
+
+/**
+ * Today's behaviour: commit once the IME is quiet
+ */
+export const timerStrategy: CommitStrategy = {
+  name: 'timer',
+  onInput: () => null,
+  onTimeout: () => 'timeout',
+};
+
+/**
+ * Commit as soon as the buffer ends in a character that is complete on its
+ * own, so phrases from Chinese and Japanese IMEs are sent without delay
+ */
+export const scriptCompleteStrategy: CommitStrategy = {
+  name: 'script-complete',
+  onInput: ({ buffer }) => (endsComplete(buffer) ? 'script-complete' : null),
+  onTimeout: () => 'timeout',
+};
+
+/**
+ * Commit when a word ends
+ */
+export const wordBoundaryStrategy: CommitStrategy = {
+  name: 'word-boundary',
+  onInput: ({ input }) => (WORD_BOUNDARY.test(input) ? 'word-boundary' : null),
+  onTimeout: () => 'timeout',
+};
+
+/**
+ * Script-complete, then word-boundary, then the timer
+ */
+export const hybridStrategy: CommitStrategy = {
+  name: 'hybrid',
+  onInput: (context) => scriptCompleteStrategy.onInput(context) ?? wordBoundaryStrategy.onInput(context),
+  onTimeout: () => 'timeout',
+};
+
+const BUILTIN_STRATEGIES: Record<CommitStrategyName, CommitStrategy> = {
+  'timer': timerStrategy,
+  'script-complete': scriptCompleteStrategy,
+  'word-boundary': wordBoundaryStrategy,
+  'hybrid': hybridStrategy,
+};
+
+/**
+ * Check if text ends in a character that is complete on its own
+ */
+function endsComplete(text: string): boolean {
+  const clusters = splitGraphemes(text);
+  return clusters.length > 0 && COMPLETE_CHARACTER.test(clusters[clusters.length - 1]);
+}
+
+/**
+ * Get a built-in strategy by name, or use a custom one as is
+ */
+export function createCommitStrategy(strategy: CommitStrategyName | CommitStrategy = 'timer'): CommitStrategy {
+  return typeof strategy === 'string' ? BUILTIN_STRATEGIES[strategy] : strategy;
+}
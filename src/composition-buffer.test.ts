@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CompositionBufferOptions, FlushReason, createCompositionBuffer } from './composition-buffer';
+
+function create(options: Partial<CompositionBufferOptions> = {}) {
+  const flushes: Array<[string, FlushReason]> = [];
+  const regular: string[] = [];
+  const buffer = createCompositionBuffer({
+    compositionTimeout: 50,
+    onFlush: (text, reason) => flushes.push([text, reason]),
+    onRegularInput: (text) => regular.push(text),
+    ...options,
+  });
+  return { buffer, flushes, regular };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('CompositionBuffer grapheme clusters', () => {
+  it('removes a whole cluster on backspace', () => {
+    const { buffer } = create();
+    buffer.process('vie\u0302\u0323', true, 'vietnamese');
+
+    expect(buffer.getLength()).toBe(3);
+    expect(buffer.backspace()).toBe(true);
+    expect(buffer.getBuffer()).toBe('vi');
+    buffer.destroy();
+  });
+
+  it('holds back a cluster the next chunk may complete on timeout', () => {
+    const { buffer, flushes } = create();
+
+    buffer.process('hi\u{1F469}\u200d', true);
+    vi.advanceTimersByTime(50);
+    expect(flushes).toEqual([['hi', 'timeout']]);
+    expect(buffer.getBuffer()).toBe('\u{1F469}\u200d');
+
+    buffer.process('\u{1F4BB}', true);
+    vi.advanceTimersByTime(50);
+    expect(flushes).toEqual([['hi', 'timeout'], ['\u{1F469}\u200d\u{1F4BB}', 'timeout']]);
+    buffer.destroy();
+  });
+
+  it('commits an unfinished cluster after one more timeout', () => {
+    const { buffer, flushes } = create();
+
+    buffer.process('\u{1F1FB}', true);
+    vi.advanceTimersByTime(50);
+    expect(flushes).toEqual([]);
+
+    vi.advanceTimersByTime(50);
+    expect(flushes).toEqual([['\u{1F1FB}', 'timeout']]);
+    buffer.destroy();
+  });
+
+  it('commits before passing regular input through', () => {
+    const { buffer, flushes, regular } = create();
+
+    buffer.process('你', true, 'chinese');
+    buffer.process('a', false);
+
+    expect(flushes).toEqual([['你', 'regular-input']]);
+    expect(regular).toEqual(['a']);
+    buffer.destroy();
+  });
+});
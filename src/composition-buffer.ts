@@ -3,10 +3,34 @@
  * Buffers IME input during composition and flushes when complete
  */
 
+import { AdaptiveTimeout, AdaptiveTimeoutOptions, createAdaptiveTimeout } from './adaptive-timeout';
+import { graphemeLength, removeLastGrapheme, splitOpenCluster } from './grapheme';
+import { CommitStrategy, createCommitStrategy } from './commit-strategy';
+
+/**
+ * Why the buffer was flushed
+ * - timeout: no IME input for the composition timeout
+ * - script-complete: the buffer ended in an ideograph, kana or Hangul syllable
+ * - word-boundary: an IME chunk ended in a space or punctuation
+ * - regular-input: other input (or a new word) ended the composition
+ * - enter: Enter was pressed
+ * - escape: Esc or an escape sequence (arrow keys, ...) was pressed
+ * - mouse: a mouse button was pressed
+ * - focus-out: the terminal lost focus
+ * - suspend: Ctrl+Z suspended the proxy and the app
+ * - external: text committed from outside the keyboard (control socket)
+ * - immediate: text in a script whose policy commits it on arrival
+ * - manual: flushed through the API, control menu or a setting change
+ */
+export type FlushReason = 'timeout' | 'script-complete' | 'word-boundary' | 'regular-input' | 'enter' | 'escape' | 'mouse' | 'focus-out' | 'suspend' | 'external' | 'immediate' | 'manual';
+
 export interface CompositionState {
   isComposing: boolean;
   buffer: string;
   lastInputTime: number;
+  lastIMETime: number;
+  isPreedit: boolean;
+  language: string | null;
   flushTimer: NodeJS.Timeout | null;
 }
 
@@ -17,16 +41,34 @@ export interface CompositionBufferOptions {
    */
   compositionTimeout?: number;
   
+  /**
+   * Learn the timeout from the gaps between IME chunks, per language
+   * compositionTimeout is used until enough gaps have been seen
+   */
+  adaptive?: AdaptiveTimeoutOptions | boolean;
+  
+  /**
+   * Decides when buffered text is committed, asked after every IME chunk
+   * and timeout
+   * Default: timer
+   */
+  commitStrategy?: CommitStrategy;
+  
   /**
    * Callback when buffer is flushed (composition complete)
    */
-  onFlush: (text: string) => void;
+  onFlush: (text: string, reason: FlushReason, language: string | null) => void;
   
   /**
    * Callback for regular (non-IME) input
    */
   onRegularInput: (text: string) => void;
   
+  /**
+   * Optional callback when the buffered text changes
+   */
+  onChange?: (buffer: string, language: string | null) => void;
+  
   /**
    * Optional callback for debug logging
    */
@@ -38,10 +80,19 @@ export class CompositionBuffer {
     isComposing: false,
     buffer: '',
     lastInputTime: 0,
+    lastIMETime: 0,
+    isPreedit: false,
+    language: null,
     flushTimer: null,
   };
   
-  private options: Required<Omit<CompositionBufferOptions, 'onDebug'>> & { onDebug?: (msg: string) => void };
+  private options: Required<Omit<CompositionBufferOptions, 'onDebug' | 'onChange' | 'adaptive' | 'commitStrategy'>> & {
+    onChange?: (buffer: string, language: string | null) => void;
+    onDebug?: (msg: string) => void;
+  };
+  private adaptive: AdaptiveTimeout | null = null;
+  private strategy: CommitStrategy;
+  private holdingCluster = false;
   private readonly DEFAULT_TIMEOUT = 50; // ms
   
   constructor(options: CompositionBufferOptions) {
@@ -49,19 +100,28 @@ export class CompositionBuffer {
       compositionTimeout: options.compositionTimeout ?? this.DEFAULT_TIMEOUT,
       onFlush: options.onFlush,
       onRegularInput: options.onRegularInput,
+      onChange: options.onChange,
       onDebug: options.onDebug,
     };
+    this.strategy = options.commitStrategy ?? createCommitStrategy();
+    
+    if (options.adaptive) {
+      this.adaptive = createAdaptiveTimeout(this.options.compositionTimeout, {
+        ...(options.adaptive === true ? {} : options.adaptive),
+        onDebug: options.onDebug,
+      });
+    }
   }
   
   /**
    * Process incoming input
    * Buffers IME input, passes through regular input
    */
-  public process(input: string, isIME: boolean): void {
+  public process(input: string, isIME: boolean, language: string | null = null): void {
     const now = Date.now();
     
     if (isIME) {
-      this.handleIMEInput(input, now);
+      this.handleIMEInput(input, now, language);
     } else {
       this.handleRegularInput(input);
     }
@@ -70,12 +130,29 @@ export class CompositionBuffer {
   /**
    * Handle IME input - buffer and set flush timer
    */
-  private handleIMEInput(input: string, now: number): void {
+  private handleIMEInput(input: string, now: number, language: string | null): void {
     this.debug(`IME input received: "${input}" (${this.toHex(input)})`);
     
+    // An input engine's word is committed before other IME text
+    if (this.state.isPreedit) {
+      this.flush('regular-input');
+    }
+    
+    // Learn gaps within a composition, and also the gap right after a
+    // timeout flush: that flush may have cut the composition short, and
+    // without it the timeout could never grow. Gaps after a commit made
+    // on purpose aren't learned (lastIMETime is reset in flush), and
+    // AdaptiveTimeout drops gaps long enough to be pauses between words
+    if (this.adaptive && this.state.lastIMETime > 0) {
+      this.adaptive.record(language, now - this.state.lastIMETime);
+    }
+    this.state.lastIMETime = now;
+    this.holdingCluster = false;
+    
     // Start or continue composition
     this.state.isComposing = true;
     this.state.buffer += input;
+    this.state.language = language ?? this.state.language;
     this.state.lastInputTime = now;
     
     // Clear previous flush timer
@@ -84,11 +161,17 @@ export class CompositionBuffer {
     }
     
     // Set new flush timer
-    this.state.flushTimer = setTimeout(() => {
-      this.flush();
-    }, this.options.compositionTimeout);
+    const timeout = this.getTimeout(language);
+    this.state.flushTimer = setTimeout(() => this.flushOnTimeout(), timeout);
     
-    this.debug(`Buffer now: "${this.state.buffer}"`);
+    this.debug(`Buffer now: "${this.state.buffer}" (${graphemeLength(this.state.buffer)} chars)`);
+    this.options.onChange?.(this.state.buffer, this.state.language);
+    
+    // The strategy may commit without waiting for the timer
+    const reason = this.strategy.onInput({ buffer: this.state.buffer, input, language: this.state.language });
+    if (reason) {
+      this.flush(reason);
+    }
   }
   
   /**
@@ -97,31 +180,118 @@ export class CompositionBuffer {
   private handleRegularInput(input: string): void {
     this.debug(`Regular input: "${input}" (${this.toHex(input)})`);
     
+    // Regular input breaks the IME typing rhythm
+    this.state.lastIMETime = 0;
+    
     // If we were composing, flush the buffer first
     if (this.state.isComposing && this.state.buffer) {
-      this.flush();
+      this.flush('regular-input');
     }
     
     // Pass through regular input
     this.options.onRegularInput(input);
   }
   
+  /**
+   * Show an input engine's pre-edit
+   * Replaces the buffer without a flush timer: the engine decides when
+   * the word is committed
+   */
+  public compose(text: string, language: string | null = null): void {
+    // IME text waiting for its timer goes first
+    if (this.state.buffer && !this.state.isPreedit) {
+      this.flush('regular-input');
+    }
+    
+    this.state.buffer = text;
+    this.state.isComposing = text !== '';
+    this.state.isPreedit = text !== '';
+    this.state.language = text ? language : null;
+    this.debug(`Pre-edit: "${text}"`);
+    this.options.onChange?.(text, this.state.language);
+  }
+  
   /**
    * Flush the composition buffer
    */
-  public flush(): void {
+  public flush(reason: FlushReason = 'manual'): void {
     if (this.state.flushTimer) {
       clearTimeout(this.state.flushTimer);
       this.state.flushTimer = null;
     }
     
     if (this.state.buffer) {
-      this.debug(`Flushing buffer: "${this.state.buffer}"`);
-      this.options.onFlush(this.state.buffer);
+      this.debug(`Flushing buffer (${reason}): "${this.state.buffer}"`);
+      this.options.onFlush(this.state.buffer, reason, this.state.language);
       this.state.buffer = '';
+      this.options.onChange?.('', null);
     }
     
     this.state.isComposing = false;
+    this.state.isPreedit = false;
+    this.state.language = null;
+    this.holdingCluster = false;
+    
+    // A composition committed on purpose ends the rhythm
+    if (reason !== 'timeout') {
+      this.state.lastIMETime = 0;
+    }
+  }
+  
+  /**
+   * Ask the strategy when the IME went quiet
+   * A last cluster the next chunk may still extend (a lone flag letter,
+   * a trailing joiner or jamo) waits one more timeout, so the app never
+   * gets half of it
+   */
+  private flushOnTimeout(): void {
+    this.state.flushTimer = null;
+    const timeout = this.getTimeout(this.state.language);
+    const reason = this.strategy.onTimeout({ buffer: this.state.buffer, input: '', language: this.state.language });
+    
+    if (!reason) {
+      this.state.flushTimer = setTimeout(() => this.flushOnTimeout(), timeout);
+      return;
+    }
+    
+    const { complete, open } = splitOpenCluster(this.state.buffer);
+    if (!open || this.holdingCluster) {
+      this.flush(reason);
+      return;
+    }
+    
+    this.debug(`Holding unfinished cluster: "${open}"`);
+    this.holdingCluster = true;
+    if (complete) {
+      this.debug(`Flushing buffer (${reason}): "${complete}"`);
+      this.options.onFlush(complete, reason, this.state.language);
+      this.state.buffer = open;
+      this.options.onChange?.(open, this.state.language);
+    }
+    this.state.flushTimer = setTimeout(() => this.flushOnTimeout(), timeout);
+  }
+  
+  /**
+   * Change the flush timeout (the fallback when adaptive)
+   */
+  public setCompositionTimeout(timeout: number): void {
+    this.options.compositionTimeout = timeout;
+    this.adaptive?.setFallback(timeout);
+    this.debug(`Composition timeout: ${timeout}ms`);
+  }
+  
+  /**
+   * Current flush timeout for a language (learned when adaptive)
+   */
+  public getTimeout(language: string | null = null): number {
+    return this.adaptive ? this.adaptive.timeoutFor(language) : this.options.compositionTimeout;
+  }
+  
+  /**
+   * Learned timeouts per language, or null when not adaptive
+   */
+  public getAdaptiveSummary(): Record<string, { timeout: number; samples: number }> | null {
+    return this.adaptive ? this.adaptive.summary() : null;
   }
   
   /**
@@ -138,6 +308,20 @@ export class CompositionBuffer {
     return this.state.buffer;
   }
   
+  /**
+   * Number of characters (grapheme clusters) in the buffer
+   */
+  public getLength(): number {
+    return graphemeLength(this.state.buffer);
+  }
+  
+  /**
+   * Get the language of the buffered text, if detected
+   */
+  public getLanguage(): string | null {
+    return this.state.language;
+  }
+  
   /**
    * Clear buffer without flushing
    */
@@ -148,21 +332,23 @@ export class CompositionBuffer {
     }
     this.state.buffer = '';
     this.state.isComposing = false;
+    this.state.isPreedit = false;
+    this.state.language = null;
+    this.holdingCluster = false;
     this.debug('Buffer cleared');
+    this.options.onChange?.('', null);
   }
   
   /**
    * Handle backspace during composition
+   * Removes the last grapheme cluster: a letter with its marks, a syllable
+   * of jamo, a whole emoji sequence or flag
    */
   public backspace(): boolean {
     if (this.state.buffer.length > 0) {
-      // Remove last character from buffer
-      // Note: This is simplified; proper implementation would need to
-      // handle multi-byte characters and combining marks correctly
-      const chars = [...this.state.buffer];
-      chars.pop();
-      this.state.buffer = chars.join('');
+      this.state.buffer = removeLastGrapheme(this.state.buffer);
       this.debug(`Backspace in buffer, now: "${this.state.buffer}"`);
+      this.options.onChange?.(this.state.buffer, this.state.language);
       return true; // Handled
     }
     return false; // Not handled, let caller deal with it
@@ -176,6 +362,9 @@ export class CompositionBuffer {
       clearTimeout(this.state.flushTimer);
       this.state.flushTimer = null;
     }
+    
+    // Keep what was learned for the next session
+    this.adaptive?.save();
   }
   
   /**
@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  ConfigError,
+  envName,
+  getConfigPath,
+  loadConfig,
+  parseSetting,
+  profileNameFor,
+  readEnvSettings,
+  resolveSettings,
+  validateConfig,
+} from './config';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'timp-config-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('getConfigPath', () => {
+  it('prefers TIMP_CONFIG, then XDG_CONFIG_HOME', () => {
+    expect(getConfigPath({ TIMP_CONFIG: '/etc/timp.json', XDG_CONFIG_HOME: '/xdg' })).toBe('/etc/timp.json');
+    expect(getConfigPath({ XDG_CONFIG_HOME: '/xdg' })).toBe('/xdg/terminal-ime-proxy/config.json');
+  });
+});
+
+describe('loadConfig', () => {
+  it('treats a missing file as empty unless it is required', () => {
+    const file = path.join(dir, 'none.json');
+
+    expect(loadConfig(file)).toEqual({});
+    expect(() => loadConfig(file, true)).toThrow(`${file}: cannot read config file (ENOENT)`);
+  });
+
+  it('reports invalid JSON with the file name', () => {
+    const file = path.join(dir, 'config.json');
+    fs.writeFileSync(file, '{ "defaults": ');
+
+    expect(() => loadConfig(file)).toThrow(ConfigError);
+    expect(() => loadConfig(file)).toThrow(`${file}: invalid JSON`);
+  });
+
+  it('resolves relative middleware paths against the config file', () => {
+    const file = path.join(dir, 'config.json');
+    fs.writeFileSync(file, JSON.stringify({
+      defaults: { middleware: ['./upper.js', 'snippets', '../shared/trim.js'] },
+      profiles: { vim: { middleware: ['./vim.js'] } },
+    }));
+
+    const config = loadConfig(file);
+    expect(config.defaults?.middleware).toEqual([path.join(dir, 'upper.js'), 'snippets', path.resolve(dir, '../shared/trim.js')]);
+    expect(config.profiles?.vim.middleware).toEqual([path.join(dir, 'vim.js')]);
+  });
+});
+
+describe('validateConfig', () => {
+  it('accepts defaults and profiles', () => {
+    const config = { defaults: { compositionTimeout: 50 }, profiles: { claude: { normalization: 'nfc' } } };
+
+    expect(validateConfig(config, 'config.json')).toEqual(config);
+  });
+
+  it('names the bad key or value and where it is', () => {
+    expect(() => validateConfig([], 'c.json')).toThrow('c.json: config must be a JSON object');
+    expect(() => validateConfig({ default: {} }, 'c.json')).toThrow('unknown key "default" (expected "defaults" or "profiles")');
+    expect(() => validateConfig({ defaults: { timeout: 5 } }, 'c.json')).toThrow('unknown setting "defaults.timeout"');
+    expect(() => validateConfig({ profiles: { vim: { compositionTimeout: -1 } } }, 'c.json'))
+      .toThrow('"profiles.vim.compositionTimeout" must be a number >= 0');
+    expect(() => validateConfig({ defaults: { pasteMode: 'all' } }, 'c.json'))
+      .toThrow('"defaults.pasteMode" must be one of: raw, normalize, strip');
+    expect(() => validateConfig({ defaults: { logMaxFiles: 1.5 } }, 'c.json')).toThrow('must be a whole number');
+    expect(() => validateConfig({ defaults: { middleware: [1] } }, 'c.json')).toThrow('must be an array of strings');
+  });
+});
+
+describe('parseSetting', () => {
+  it('converts strings to the setting type', () => {
+    expect(parseSetting('compositionTimeout', '40', '--timeout')).toBe(40);
+    expect(parseSetting('debug', 'yes', 'TIMP_DEBUG')).toBe(true);
+    expect(parseSetting('debug', 'off', 'TIMP_DEBUG')).toBe(false);
+    expect(parseSetting('disabledScripts', 'thai, arabic', '--disable-script')).toEqual(['thai', 'arabic']);
+  });
+
+  it('rejects values that do not convert', () => {
+    expect(() => parseSetting('compositionTimeout', 'soon', '--timeout')).toThrow('--timeout: "soon" must be a number >= 0');
+    expect(() => parseSetting('compositionTimeout', '', '--timeout')).toThrow(ConfigError);
+    expect(() => parseSetting('debug', 'maybe', 'TIMP_DEBUG')).toThrow('"maybe" must be true or false');
+    expect(() => parseSetting('debug', undefined, '--debug')).toThrow('--debug: missing value');
+  });
+});
+
+describe('readEnvSettings', () => {
+  it('reads TIMP_* variables', () => {
+    expect(envName('compositionTimeout')).toBe('TIMP_COMPOSITION_TIMEOUT');
+    expect(readEnvSettings({ TIMP_COMPOSITION_TIMEOUT: '70', TIMP_PREEDIT: '1', HOME: '/root' }))
+      .toEqual({ compositionTimeout: 70, preedit: true });
+  });
+});
+
+describe('profileNameFor', () => {
+  it('uses the command basename without extension', () => {
+    expect(profileNameFor('/usr/local/bin/claude')).toBe('claude');
+    expect(profileNameFor('gemini.cmd')).toBe('gemini');
+  });
+});
+
+describe('resolveSettings', () => {
+  const config = {
+    defaults: { compositionTimeout: 50, debug: false, preedit: true },
+    profiles: {
+      claude: { compositionTimeout: 60, debug: true },
+      fast: { compositionTimeout: 20 },
+    },
+  };
+
+  it('applies CLI over environment over profile over defaults', () => {
+    const resolved = resolveSettings({
+      command: '/usr/bin/claude',
+      config,
+      env: { TIMP_DEBUG: '0', TIMP_NORMALIZATION: 'nfc' },
+      cli: { normalization: 'nfd' },
+    });
+
+    expect(resolved).toEqual({
+      settings: { compositionTimeout: 60, debug: false, preedit: true, normalization: 'nfd' },
+      profile: 'claude',
+    });
+  });
+
+  it('uses a named profile over the command one', () => {
+    expect(resolveSettings({ command: 'claude', config, profile: 'fast', env: {} }).settings.compositionTimeout).toBe(20);
+    expect(resolveSettings({ command: 'claude', config, env: { TIMP_PROFILE: 'fast' } }).profile).toBe('fast');
+    expect(resolveSettings({ command: 'vim', config, env: {} }).profile).toBeNull();
+  });
+
+  it('rejects an unknown profile', () => {
+    expect(() => resolveSettings({ command: 'claude', config, profile: 'slow', env: {} }))
+      .toThrow('--profile: unknown profile "slow"');
+    expect(() => resolveSettings({ command: 'claude', config, env: { TIMP_PROFILE: 'slow' } }))
+      .toThrow('TIMP_PROFILE: unknown profile "slow"');
+  });
+});
@@ -0,0 +1,470 @@
+/**
+ * Configuration
+ * Loads defaults and per-command profiles from a JSON config file and
+ * resolves them against environment variables and command line flags
+ *
+ * Precedence: CLI > environment > profile > config defaults > built-in defaults
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SCRIPT_NAMES, SCRIPT_POLICIES, SUPPORTED_LANGUAGES } from './ime-detector';
+import { NORMALIZATION_MODES } from './normalizer';
+import { INPUT_ENGINES } from './input-engine';
+import { TONE_STYLES } from './vietnamese-engine';
+import { PREEDIT_STYLES } from './preedit-renderer';
+import { BACKSPACE_KEYS, keyName, parseKey } from './control-menu';
+import { FOCUS_OUT_ACTIONS } from './terminal-reports';
+import { COMMIT_STRATEGIES } from './commit-strategy';
+import { LOG_LEVELS } from './logger';
+import type { RuntimeOptionKey, TerminalIMEProxyOptions } from './terminal-ime-proxy';
+
+/**
+ * Settings a config file, profile, environment or CLI can provide
+ */
+export type ProxySettings = Partial<Omit<TerminalIMEProxyOptions, 'command' | RuntimeOptionKey>>;
+
+export type SettingKey = keyof ProxySettings;
+
+/**
+ * Config file layout
+ */
+export interface ConfigFile {
+  /**
+   * Settings applied to every command
+   */
+  defaults?: ProxySettings;
+
+  /**
+   * Named profiles, selected with --profile or by command basename
+   */
+  profiles?: Record<string, ProxySettings>;
+}
+
+/**
+ * Error for an invalid config file, environment variable or flag
+ */
+export class ConfigError extends Error {
+  /**
+   * Where the bad value came from (file path, variable or flag)
+   */
+  public readonly source: string;
+
+  constructor(message: string, source: string) {
+    super(`${source}: ${message}`);
+    this.name = 'ConfigError';
+    this.source = source;
+  }
+}
+
+/**
+ * Value types of settings
+ */
+type SettingSpec =
+  | { type: 'number'; min: number; max?: number; integer?: boolean }
+  | { type: 'boolean' }
+  | { type: 'string' }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'list'; values?: readonly string[] }
+  | { type: 'record'; keys?: readonly string[]; values?: readonly string[] }
+  | { type: 'key' };
+
+/**
+ * Schema of every setting; also the list of valid config keys
+ */
+const SETTINGS: { [K in SettingKey]-?: SettingSpec } = {
+  args: { type: 'list' },
+  cwd: { type: 'string' },
+  env: { type: 'record' },
+  compositionTimeout: { type: 'number', min: 0 },
+  adaptiveTimeout: { type: 'boolean' },
+  adaptivePercentile: { type: 'number', min: 0, max: 1 },
+  adaptiveMinTimeout: { type: 'number', min: 0 },
+  adaptiveMaxTimeout: { type: 'number', min: 0 },
+  adaptivePersist: { type: 'boolean' },
+  adaptiveStateFile: { type: 'string' },
+  commitStrategy: { type: 'enum', values: COMMIT_STRATEGIES },
+  editWindow: { type: 'number', min: 0 },
+  pasteMode: { type: 'enum', values: ['raw', 'normalize', 'strip'] },
+  pasteTimeout: { type: 'number', min: 1 },
+  escapeTimeout: { type: 'number', min: 0 },
+  invalidBytes: { type: 'enum', values: ['replace', 'drop'] },
+  normalization: { type: 'enum', values: NORMALIZATION_MODES },
+  engine: { type: 'enum', values: INPUT_ENGINES },
+  toneStyle: { type: 'enum', values: TONE_STYLES },
+  preedit: { type: 'boolean' },
+  preeditStyle: { type: 'enum', values: PREEDIT_STYLES },
+  prefixKey: { type: 'key' },
+  controlSocket: { type: 'string' },
+  focusOut: { type: 'enum', values: FOCUS_OUT_ACTIONS },
+  middleware: { type: 'list' },
+  snippets: { type: 'record' },
+  passthroughLanguages: { type: 'list', values: SUPPORTED_LANGUAGES },
+  scripts: { type: 'record', keys: SCRIPT_NAMES, values: SCRIPT_POLICIES },
+  disabledScripts: { type: 'list', values: SCRIPT_NAMES },
+  jobControl: { type: 'boolean' },
+  killTimeout: { type: 'number', min: 0 },
+  debug: { type: 'boolean' },
+  stats: { type: 'boolean' },
+  statsFile: { type: 'string' },
+  logFile: { type: 'string' },
+  logLevel: { type: 'enum', values: LOG_LEVELS },
+  logRedact: { type: 'boolean' },
+  logMaxSize: { type: 'number', min: 1024, integer: true },
+  logMaxFiles: { type: 'number', min: 0, integer: true },
+  cols: { type: 'number', min: 1, integer: true },
+  rows: { type: 'number', min: 1, integer: true },
+};
+
+/**
+ * Settings that can't be given as environment variables
+ */
+const NOT_FROM_ENV: SettingKey[] = ['args', 'env', 'snippets', 'scripts'];
+
+const ENV_PREFIX = 'TIMP_';
+const APP_DIR = 'terminal-ime-proxy';
+
+/**
+ * Default config file location
+ * $TIMP_CONFIG, else $XDG_CONFIG_HOME/terminal-ime-proxy/config.json,
+ * else ~/.config/terminal-ime-proxy/config.json
+ */
+export function getConfigPath(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.TIMP_CONFIG) {
+    return env.TIMP_CONFIG;
+  }
+  const base = env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(base, APP_DIR, 'config.json');
+}
+
+/**
+ * Load and validate a config file
+ * A missing file is an empty config unless `required` is set
+ */
+export function loadConfig(filePath: string, required = false): ConfigFile {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, 'utf8');
+  } catch (e) {
+    const code = (e as NodeJS.ErrnoException).code;
+    if (code === 'ENOENT' && !required) {
+      return {};
+    }
+    throw new ConfigError(`cannot read config file (${code ?? (e as Error).message})`, filePath);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (e) {
+    throw new ConfigError(`invalid JSON (${(e as Error).message})`, filePath);
+  }
+
+  return resolveConfigPaths(validateConfig(data, filePath), path.dirname(path.resolve(filePath)));
+}
+
+/**
+ * Validate parsed config data
+ */
+export function validateConfig(data: unknown, source: string): ConfigFile {
+  if (!isObject(data)) {
+    throw new ConfigError('config must be a JSON object', source);
+  }
+
+  const config: ConfigFile = {};
+
+  for (const [key, value] of Object.entries(data)) {
+    if (key === 'defaults') {
+      config.defaults = validateSettings(value, 'defaults', source);
+    } else if (key === 'profiles') {
+      if (!isObject(value)) {
+        throw new ConfigError('"profiles" must be an object', source);
+      }
+      config.profiles = {};
+      for (const [name, profile] of Object.entries(value)) {
+        config.profiles[name] = validateSettings(profile, `profiles.${name}`, source);
+      }
+    } else if (key !== '$schema') {
+      throw new ConfigError(`unknown key "${key}" (expected "defaults" or "profiles")`, source);
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Validate one settings object (defaults or a profile)
+ */
+export function validateSettings(data: unknown, where: string, source: string): ProxySettings {
+  if (!isObject(data)) {
+    throw new ConfigError(`"${where}" must be an object`, source);
+  }
+
+  const settings: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(data)) {
+    if (!isSettingKey(key)) {
+      throw new ConfigError(`unknown setting "${where}.${key}"`, source);
+    }
+    const problem = checkValue(SETTINGS[key], value);
+    if (problem) {
+      throw new ConfigError(`"${where}.${key}" ${problem}`, source);
+    }
+    settings[key] = value;
+  }
+
+  return settings as ProxySettings;
+}
+
+/**
+ * Validate one setting given as a JSON value
+ */
+export function validateSetting<K extends SettingKey>(key: K, value: unknown, source: string): ProxySettings[K] {
+  if (!isSettingKey(key)) {
+    throw new ConfigError(`unknown setting "${key}"`, source);
+  }
+  const problem = checkValue(SETTINGS[key], value);
+  if (problem) {
+    throw new ConfigError(`"${key}" ${problem}`, source);
+  }
+  return value as ProxySettings[K];
+}
+
+/**
+ * Parse one setting from a string (environment variable or CLI flag)
+ */
+export function parseSetting<K extends SettingKey>(key: K, raw: string | undefined, source: string): ProxySettings[K] {
+  const spec = SETTINGS[key];
+  let value: unknown = raw;
+
+  if (raw === undefined) {
+    throw new ConfigError('missing value', source);
+  }
+
+  if (spec.type === 'number') {
+    value = raw.trim() === '' ? NaN : Number(raw);
+  } else if (spec.type === 'boolean') {
+    const lower = raw.toLowerCase();
+    value = ['1', 'true', 'yes', 'on'].includes(lower) ? true
+      : ['0', 'false', 'no', 'off', ''].includes(lower) ? false
+      : raw;
+  } else if (spec.type === 'list') {
+    value = raw.split(',').map((item) => item.trim()).filter(Boolean);
+  }
+
+  const problem = checkValue(spec, value);
+  if (problem) {
+    throw new ConfigError(`"${raw}" ${problem}`, source);
+  }
+
+  return value as ProxySettings[K];
+}
+
+/**
+ * Environment variable name for a setting (compositionTimeout -> TIMP_COMPOSITION_TIMEOUT)
+ */
+export function envName(key: SettingKey): string {
+  return ENV_PREFIX + key.replace(/[A-Z]/g, (c) => `_${c}`).toUpperCase();
+}
+
+/**
+ * Read settings from TIMP_* environment variables
+ */
+export function readEnvSettings(env: NodeJS.ProcessEnv = process.env): ProxySettings {
+  const settings: Record<string, unknown> = {};
+
+  for (const key of Object.keys(SETTINGS) as SettingKey[]) {
+    if (NOT_FROM_ENV.includes(key)) continue;
+
+    const name = envName(key);
+    if (env[name] !== undefined) {
+      settings[key] = parseSetting(key, env[name], name);
+    }
+  }
+
+  return settings as ProxySettings;
+}
+
+/**
+ * Profile name for a command: its basename without extension
+ * (/usr/local/bin/claude -> claude, gemini.cmd -> gemini)
+ */
+export function profileNameFor(command: string): string {
+  const base = path.basename(command);
+  return base.replace(/\.(cmd|exe|bat|js|mjs|cjs)$/i, '');
+}
+
+export interface ResolveOptions {
+  /**
+   * Command being wrapped
+   */
+  command: string;
+
+  /**
+   * Settings from CLI flags
+   */
+  cli?: ProxySettings;
+
+  /**
+   * Profile named with --profile
+   */
+  profile?: string;
+
+  /**
+   * Loaded config file
+   */
+  config?: ConfigFile;
+
+  /**
+   * Environment (default: process.env)
+   */
+  env?: NodeJS.ProcessEnv;
+}
+
+export interface ResolvedSettings {
+  settings: ProxySettings;
+
+  /**
+   * Profile that was applied, if any
+   */
+  profile: string | null;
+}
+
+/**
+ * Merge config defaults, profile, environment and CLI settings
+ */
+export function resolveSettings(options: ResolveOptions): ResolvedSettings {
+  const env = options.env ?? process.env;
+  const config = options.config ?? {};
+  const explicit = options.profile ?? env.TIMP_PROFILE;
+
+  let profile: string | null = null;
+  let profileSettings: ProxySettings = {};
+
+  if (explicit) {
+    if (!config.profiles?.[explicit]) {
+      const source = options.profile ? '--profile' : 'TIMP_PROFILE';
+      throw new ConfigError(`unknown profile "${explicit}"`, source);
+    }
+    profile = explicit;
+    profileSettings = config.profiles[explicit];
+  } else {
+    const name = profileNameFor(options.command);
+    if (config.profiles?.[name]) {
+      profile = name;
+      profileSettings = config.profiles[name];
+    }
+  }
+
+  return {
+    settings: {
+      ...config.defaults,
+      ...profileSettings,
+      ...readEnvSettings(env),
+      ...options.cli,
+    },
+    profile,
+  };
+}
+
+/**
+ * Check a value against its spec; returns a description of the problem
+ */
+function checkValue(spec: SettingSpec, value: unknown): string | null {
+  switch (spec.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < spec.min) {
+        return `must be a number >= ${spec.min}`;
+      }
+      if (spec.max !== undefined && value > spec.max) {
+        return `must be a number <= ${spec.max}`;
+      }
+      if (spec.integer && !Number.isInteger(value)) {
+        return 'must be a whole number';
+      }
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be true or false';
+    case 'string':
+      return typeof value === 'string' ? null : 'must be a string';
+    case 'enum':
+      return spec.values.includes(value as string) ? null : `must be one of: ${spec.values.join(', ')}`;
+    case 'list':
+      if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+        return 'must be an array of strings';
+      }
+      if (spec.values) {
+        const bad = value.find((item) => !spec.values!.includes(item));
+        if (bad !== undefined) {
+          return `contains "${bad}" (expected: ${spec.values.join(', ')})`;
+        }
+      }
+      return null;
+    case 'record':
+      if (!isObject(value) || Object.values(value).some((item) => typeof item !== 'string')) {
+        return 'must be an object of strings';
+      }
+      if (spec.keys) {
+        const bad = Object.keys(value).find((key) => !spec.keys!.includes(key));
+        if (bad !== undefined) {
+          return `has unknown key "${bad}" (expected: ${spec.keys.join(', ')})`;
+        }
+      }
+      if (spec.values) {
+        const bad = Object.values(value).find((item) => !spec.values!.includes(item as string));
+        if (bad !== undefined) {
+          return `contains "${bad}" (expected: ${spec.values.join(', ')})`;
+        }
+      }
+      return null;
+    case 'key': {
+      const key = typeof value === 'string' ? parseKey(value) : null;
+      if (key === null) {
+        return 'must be a control key like C-] or none';
+      }
+      return BACKSPACE_KEYS.includes(key) ? `can't be ${keyName(key)}, which terminals send for Backspace` : null;
+    }
+  }
+}
+
+function isSettingKey(key: string): key is SettingKey {
+  return Object.prototype.hasOwnProperty.call(SETTINGS, key);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Make relative middleware module paths relative to the config file's
+ * directory instead of wherever the proxy was started
+ */
+function resolveConfigPaths(config: ConfigFile, dir: string): ConfigFile {
+  const resolve = (settings: ProxySettings): ProxySettings => (settings.middleware
+    ? {
+      ...settings,
+      middleware: settings.middleware.map((entry) => (typeof entry === 'string' && isRelativeModulePath(entry)
+        ? path.resolve(dir, entry)
+        : entry)),
+    }
+    : settings);
+
+  return {
+    ...config,
+    ...(config.defaults && { defaults: resolve(config.defaults) }),
+    ...(config.profiles && {
+      profiles: Object.fromEntries(Object.entries(config.profiles).map(([name, profile]) => [name, resolve(profile)])),
+    }),
+  };
+}
+
+/**
+ * A module path (not a built-in middleware name) that is neither absolute
+ * nor under the home directory
+ */
+function isRelativeModulePath(entry: string): boolean {
+  return (/[\\/]/.test(entry) || /\.[cm]?js$/.test(entry))
+    && !path.isAbsolute(entry)
+    && !/^~(?=$|\/)/.test(entry);
+}
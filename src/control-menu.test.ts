@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { validateSetting } from './config';
+import { ControlMenuAction, ControlMenuStatus, createControlMenu, keyName, parseKey } from './control-menu';
+
+function open(status: Partial<ControlMenuStatus> = {}) {
+  const actions: ControlMenuAction[] = [];
+  const renders: string[] = [];
+  const menu = createControlMenu({
+    prefixKey: '\x1d',
+    getStatus: () => ({ buffering: true, timeout: 50, engine: null, normalization: 'none', debug: false, ...status }),
+    onAction: (action) => actions.push(action),
+    onRender: (text) => renders.push(text),
+  });
+  menu.show();
+  return { menu, actions, renders };
+}
+
+describe('parseKey', () => {
+  it('reads C-, Ctrl+ and caret specs', () => {
+    expect(parseKey('C-]')).toBe('\x1d');
+    expect(parseKey('Ctrl+a')).toBe('\x01');
+    expect(parseKey('^?')).toBe('\x7f');
+    expect(parseKey('none')).toBe('');
+  });
+
+  it('rejects anything that is not a control key', () => {
+    expect(parseKey('a')).toBeNull();
+    expect(parseKey('C-1')).toBeNull();
+    expect(parseKey('M-x')).toBeNull();
+  });
+});
+
+describe('keyName', () => {
+  it('names control keys in caret notation', () => {
+    expect(keyName('\x1d')).toBe('^]');
+    expect(keyName('\x7f')).toBe('^?');
+    expect(keyName('a')).toBe('a');
+  });
+});
+
+describe('ControlMenu', () => {
+  it('draws the current settings when opened', () => {
+    const { menu, renders } = open({ timeout: 80, engine: 'telex' });
+
+    expect(menu.isOpen()).toBe(true);
+    expect(renders[0]).toBe('timp: b:ime=on -/+:80ms e:telex n:none d:debug=off f:flush c:clear ^]:send');
+  });
+
+  it('stays open for settings and closes for everything else', () => {
+    const { menu, actions, renders } = open({ timeout: 5, engine: 'hangul' });
+
+    menu.handleKey('b');
+    menu.handleKey('-');
+    menu.handleKey('e');
+    expect(menu.isOpen()).toBe(true);
+
+    menu.handleKey('\x1d');
+    expect(menu.isOpen()).toBe(false);
+    expect(renders[renders.length - 1]).toBe('');
+    expect(actions).toEqual([
+      { type: 'buffering', enabled: false },
+      { type: 'timeout', timeout: 0 },
+      { type: 'engine', engine: null },
+      { type: 'send-prefix' },
+    ]);
+  });
+
+  it('closes without an action on an unknown key', () => {
+    const { menu, actions } = open();
+    menu.handleKey('x');
+
+    expect(menu.isOpen()).toBe(false);
+    expect(actions).toEqual([]);
+  });
+});
+
+describe('prefixKey setting', () => {
+  it('rejects the keys terminals send for Backspace', () => {
+    expect(() => validateSetting('prefixKey', 'C-?', 'test')).toThrow(`can't be ^?, which terminals send for Backspace`);
+    expect(() => validateSetting('prefixKey', 'C-H', 'test')).toThrow(`can't be ^H, which terminals send for Backspace`);
+    expect(validateSetting('prefixKey', 'C-]', 'test')).toBe('C-]');
+  });
+});
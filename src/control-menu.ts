@@ -0,0 +1,233 @@
+/**
+ * Control Menu
+ * A prefix key (Ctrl+] by default, like tmux's) opens a one-line menu to
+ * change the proxy's behaviour without restarting it
+ */
+
+import { INPUT_ENGINES, InputEngineName } from './input-engine';
+import { NORMALIZATION_MODES, NormalizationMode } from './normalizer';
+
+export const DEFAULT_PREFIX_KEY = 'C-]';
+
+/**
+ * Keys terminals send for Backspace (^? and ^H); edits take them before
+ * the prefix key is looked at, so they can't open the menu
+ */
+export const BACKSPACE_KEYS: readonly string[] = ['\x7f', '\x08'];
+
+/**
+ * Step in ms of the timeout keys
+ */
+const TIMEOUT_STEP = 10;
+
+/**
+ * Current values shown in the menu
+ */
+export interface ControlMenuStatus {
+  buffering: boolean;
+  timeout: number;
+  engine: InputEngineName | null;
+  normalization: NormalizationMode;
+  debug: boolean;
+}
+
+/**
+ * What the user picked
+ */
+export type ControlMenuAction =
+  | { type: 'buffering'; enabled: boolean }
+  | { type: 'timeout'; timeout: number }
+  | { type: 'engine'; engine: InputEngineName | null }
+  | { type: 'normalization'; mode: NormalizationMode }
+  | { type: 'debug'; enabled: boolean }
+  | { type: 'flush' }
+  | { type: 'clear' }
+  | { type: 'send-prefix' };
+
+export interface ControlMenuOptions {
+  /**
+   * Key that opens the menu, as sent by the terminal
+   */
+  prefixKey: string;
+
+  /**
+   * Current values to show
+   */
+  getStatus: () => ControlMenuStatus;
+
+  /**
+   * Callback with the chosen action
+   */
+  onAction: (action: ControlMenuAction) => void;
+
+  /**
+   * Callback with the menu line to draw; empty when the menu closes
+   */
+  onRender: (text: string) => void;
+
+  /**
+   * Optional callback for debug logging
+   */
+  onDebug?: (message: string) => void;
+}
+
+export class ControlMenu {
+  private open = false;
+  private options: ControlMenuOptions;
+
+  constructor(options: ControlMenuOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Check if the menu is open
+   */
+  public isOpen(): boolean {
+    return this.open;
+  }
+
+  /**
+   * Open the menu
+   */
+  public show(): void {
+    this.debug('Menu opened');
+    this.open = true;
+    this.render();
+  }
+
+  /**
+   * Close the menu
+   */
+  public close(): void {
+    if (!this.open) return;
+
+    this.debug('Menu closed');
+    this.open = false;
+    this.options.onRender('');
+  }
+
+  /**
+   * Handle one key while the menu is open
+   * Settings stay open so they can be changed again; anything else
+   * closes the menu
+   */
+  public handleKey(key: string): void {
+    const status = this.options.getStatus();
+    const act = (action: ControlMenuAction) => {
+      this.debug(`Action: ${JSON.stringify(action)}`);
+      this.options.onAction(action);
+    };
+
+    switch (key) {
+      case 'b':
+        act({ type: 'buffering', enabled: !status.buffering });
+        break;
+      case '+':
+      case '=':
+        act({ type: 'timeout', timeout: status.timeout + TIMEOUT_STEP });
+        break;
+      case '-':
+      case '_':
+        act({ type: 'timeout', timeout: Math.max(0, status.timeout - TIMEOUT_STEP) });
+        break;
+      case 'e':
+        act({ type: 'engine', engine: next([null, ...INPUT_ENGINES], status.engine) });
+        break;
+      case 'n':
+        act({ type: 'normalization', mode: next(NORMALIZATION_MODES, status.normalization) });
+        break;
+      case 'd':
+        act({ type: 'debug', enabled: !status.debug });
+        break;
+      case 'f':
+        this.close();
+        act({ type: 'flush' });
+        return;
+      case 'c':
+        this.close();
+        act({ type: 'clear' });
+        return;
+      case this.options.prefixKey:
+        this.close();
+        act({ type: 'send-prefix' });
+        return;
+      default:
+        this.close();
+        return;
+    }
+
+    this.render();
+  }
+
+  private render(): void {
+    const status = this.options.getStatus();
+    const onOff = (value: boolean) => (value ? 'on' : 'off');
+
+    // Kept under 80 columns
+    this.options.onRender([
+      'timp:',
+      `b:ime=${onOff(status.buffering)}`,
+      `-/+:${status.timeout}ms`,
+      `e:${status.engine ?? 'none'}`,
+      `n:${status.normalization}`,
+      `d:debug=${onOff(status.debug)}`,
+      'f:flush',
+      'c:clear',
+      `${keyName(this.options.prefixKey)}:send`,
+    ].join(' '));
+  }
+
+  /**
+   * Debug logging helper
+   */
+  private debug(message: string): void {
+    if (this.options.onDebug) {
+      this.options.onDebug(`[ControlMenu] ${message}`);
+    }
+  }
+}
+
+/**
+ * Control key for a spec such as C-], Ctrl+] or ^]
+ * Returns '' for "none" and null for anything else
+ */
+export function parseKey(spec: string): string | null {
+  if (spec.toLowerCase() === 'none') {
+    return '';
+  }
+
+  const match = /^(?:C-|Ctrl\+|\^)(.)$/i.exec(spec);
+  if (!match) {
+    return null;
+  }
+
+  const char = match[1].toUpperCase();
+  if (char === '?') {
+    return '\x7f';
+  }
+
+  const code = char.charCodeAt(0);
+  return code >= 0x40 && code <= 0x5f ? String.fromCharCode(code - 0x40) : null;
+}
+
+/**
+ * Caret notation of a control key (^])
+ */
+export function keyName(key: string): string {
+  const code = key.charCodeAt(0);
+  return code === 0x7f ? '^?' : code < 0x20 ? `^${String.fromCharCode(code + 0x40)}` : key;
+}
+
+/**
+ * Item after the current one, wrapping around
+ */
+function next<T>(items: readonly T[], current: T): T {
+  return items[(items.indexOf(current) + 1) % items.length];
+}
+
+/**
+ * Factory function for creating a control menu
+ */
+export function createControlMenu(options: ControlMenuOptions): ControlMenu {
+  return new ControlMenu(options);
+}
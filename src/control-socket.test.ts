@@ -0,0 +1,159 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ControlCommand, ControlSocket, ControlSocketOptions, createControlSocket } from './control-socket';
+
+let dir: string;
+let socketPath: string;
+let sockets: ControlSocket[] = [];
+
+function open(options: Partial<ControlSocketOptions> = {}): { socket: ControlSocket; commands: ControlCommand[]; errors: Error[] } {
+  const commands: ControlCommand[] = [];
+  const errors: Error[] = [];
+  const socket = createControlSocket({
+    path: socketPath,
+    onCommand: (command) => {
+      commands.push(command);
+      if (command.command === 'set') throw new Error('not now');
+      return command.command === 'status' ? { buffer: '你' } : undefined;
+    },
+    onError: (e) => errors.push(e),
+    ...options,
+  });
+  sockets.push(socket);
+  return { socket, commands, errors };
+}
+
+function waitFor(condition: () => boolean, timeout = 1000): Promise<void> {
+  const start = Date.now();
+  return new Promise((resolve, reject) => {
+    const poll = () => {
+      if (condition()) return resolve();
+      if (Date.now() - start > timeout) return reject(new Error('timed out'));
+      setTimeout(poll, 5);
+    };
+    poll();
+  });
+}
+
+/**
+ * Send request lines and collect one reply per line
+ */
+function request(...lines: string[]): Promise<unknown[]> {
+  return new Promise((resolve, reject) => {
+    const client = net.connect(socketPath);
+    let received = '';
+    client.setEncoding('utf8');
+    client.on('connect', () => client.write(lines.map((line) => line + '\n').join('')));
+    client.on('data', (data: string) => {
+      received += data;
+      const replies = received.split('\n').filter(Boolean);
+      if (replies.length === lines.length) {
+        client.end();
+        resolve(replies.map((reply) => JSON.parse(reply)));
+      }
+    });
+    client.on('error', reject);
+  });
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'timp-socket-'));
+  socketPath = path.join(dir, 'timp.sock');
+});
+
+afterEach(() => {
+  for (const socket of sockets) {
+    socket.close();
+  }
+  sockets = [];
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('ControlSocket', () => {
+  it('runs commands and replies with their results, echoing ids', async () => {
+    const { commands } = open();
+    await waitFor(() => fs.existsSync(socketPath));
+
+    const replies = await request(
+      '{"command":"commit","text":"xin chào"}',
+      '{"id":7,"command":"status"}',
+      '{"id":8,"command":"set","option":"debug","value":true}'
+    );
+
+    expect(replies).toEqual([
+      { ok: true },
+      { id: 7, ok: true, buffer: '你' },
+      { id: 8, ok: false, error: 'not now' },
+    ]);
+    expect(commands[0]).toEqual({ command: 'commit', text: 'xin chào' });
+  });
+
+  it('rejects malformed requests without running them', async () => {
+    const { commands } = open();
+    await waitFor(() => fs.existsSync(socketPath));
+
+    const replies = await request('not json', '[]', '{"command":"commit"}', '{"command":"reboot"}', '{"command":"set","option":"x"}');
+
+    expect(replies).toEqual([
+      { ok: false, error: 'invalid JSON' },
+      { ok: false, error: 'request must be a JSON object' },
+      { ok: false, error: '"text" must be a string' },
+      { ok: false, error: 'unknown command "reboot" (expected commit, flush, clear, status or set)' },
+      { ok: false, error: '"value" is missing' },
+    ]);
+    expect(commands).toEqual([]);
+  });
+
+  it('creates the socket for its owner only and removes it on close', async () => {
+    const { socket } = open();
+    await waitFor(() => fs.existsSync(socketPath));
+    await request('{"command":"flush"}');
+
+    expect(fs.statSync(socketPath).mode & 0o777).toBe(0o600);
+    socket.close();
+    expect(fs.existsSync(socketPath)).toBe(false);
+  });
+
+  it('removes the socket when closed before it is listening', async () => {
+    open().socket.close();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(fs.existsSync(socketPath)).toBe(false);
+  });
+
+  it('replaces a stale socket file', async () => {
+    fs.writeFileSync(socketPath, '');
+    const { errors } = open();
+
+    await waitFor(() => fs.existsSync(socketPath) && fs.statSync(socketPath).isSocket());
+    expect(errors).toEqual([]);
+    expect(await request('{"command":"flush"}')).toEqual([{ ok: true }]);
+  });
+
+  it('reports a socket another process answers on and leaves it alone', async () => {
+    const other = net.createServer();
+    await new Promise<void>((resolve) => other.listen(socketPath, resolve));
+
+    try {
+      const { socket, errors } = open();
+      await waitFor(() => errors.length > 0);
+      socket.close();
+
+      expect(errors[0].message).toBe(`${socketPath} is in use by another process`);
+      expect(fs.existsSync(socketPath)).toBe(true);
+    } finally {
+      other.close();
+    }
+  });
+
+  it('reports a path it cannot create', async () => {
+    socketPath = path.join(dir, 'missing', 'timp.sock');
+    const { errors } = open();
+
+    await waitFor(() => errors.length > 0);
+    expect(errors[0].message).toContain(socketPath);
+  });
+});
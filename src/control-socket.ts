@@ -0,0 +1,270 @@
+/**
+ * Control Socket
+ * Unix domain socket that lets other programs (IME bridges, dictation
+ * tools, editor plugins) commit text to the app and drive the proxy,
+ * one JSON object per line each way
+ *
+ *   → {"command":"commit","text":"xin chào"}
+ *   ← {"ok":true}
+ *   → {"id":2,"command":"set","option":"compositionTimeout","value":80}
+ *   ← {"id":2,"ok":true}
+ */
+
+import * as fs from 'fs';
+import * as net from 'net';
+
+/**
+ * Requests a client can send
+ * - commit: send text to the app, after any pending composition
+ * - flush: commit the pending composition
+ * - clear: drop the pending composition
+ * - status: buffer contents, composing state, language and app pid
+ * - set: change a setting while running
+ */
+export type ControlCommand =
+  | { command: 'commit'; text: string }
+  | { command: 'flush' }
+  | { command: 'clear' }
+  | { command: 'status' }
+  | { command: 'set'; option: string; value: unknown };
+
+/**
+ * Fields added to a successful reply
+ */
+export type ControlReply = Record<string, unknown>;
+
+export interface ControlSocketOptions {
+  /**
+   * Socket path
+   */
+  path: string;
+
+  /**
+   * Run a command; throw to reply with an error
+   */
+  onCommand: (command: ControlCommand) => ControlReply | void;
+
+  /**
+   * Callback when the socket can't be opened
+   */
+  onError?: (error: Error) => void;
+
+  /**
+   * Optional callback for debug logging
+   */
+  onDebug?: (message: string) => void;
+}
+
+/**
+ * Longest request line accepted, in characters
+ */
+const MAX_LINE = 1024 * 1024;
+
+export class ControlSocket {
+  private server: net.Server;
+  private clients = new Set<net.Socket>();
+  private listening = false;
+  private closed = false;
+
+  /**
+   * Whether this socket created the file at the path, so closing it
+   * removes the file even before it was listening
+   */
+  private ownsPath = false;
+  private options: ControlSocketOptions;
+
+  constructor(options: ControlSocketOptions) {
+    this.options = options;
+    this.server = net.createServer((client) => this.handleClient(client));
+    this.server.on('listening', () => {
+      this.listening = true;
+      // Created as 0600 already; chmod in case the umask had no effect
+      try {
+        fs.chmodSync(this.options.path, 0o600);
+      } catch (e) {
+        this.fail(e as Error);
+        this.close();
+        return;
+      }
+      this.debug(`Listening on ${this.options.path}`);
+    });
+    this.server.on('error', (e: NodeJS.ErrnoException) => {
+      if (e.code === 'EADDRINUSE') {
+        this.replaceStaleSocket();
+      } else {
+        this.fail(e);
+      }
+    });
+    this.listen();
+  }
+
+  /**
+   * Stop listening and remove the socket file
+   */
+  public close(): void {
+    if (this.closed) return;
+
+    this.closed = true;
+    for (const client of this.clients) {
+      client.destroy();
+    }
+    this.server.close();
+    if (this.ownsPath) {
+      try {
+        fs.unlinkSync(this.options.path);
+      } catch {
+        // Already gone
+      }
+    }
+  }
+
+  /**
+   * Bind the socket with a umask that leaves it to the user alone, so no
+   * one else can connect before it is ready
+   */
+  private listen(): void {
+    // A file already there belongs to someone else until proven stale
+    this.ownsPath = !fs.existsSync(this.options.path);
+    let umask: number | null = null;
+    try {
+      umask = process.umask(0o077);
+    } catch {
+      // Worker threads can't change it; the chmod once listening still applies
+    }
+    try {
+      this.server.listen(this.options.path);
+    } finally {
+      if (umask !== null) {
+        process.umask(umask);
+      }
+    }
+  }
+
+  /**
+   * Take over a socket file left by a proxy that didn't exit cleanly,
+   * but never one that still answers
+   */
+  private replaceStaleSocket(): void {
+    const probe = net.connect(this.options.path);
+    probe.on('connect', () => {
+      probe.destroy();
+      this.fail(new Error(`${this.options.path} is in use by another process`));
+    });
+    probe.on('error', (e: NodeJS.ErrnoException) => {
+      if (e.code !== 'ECONNREFUSED' || this.closed) {
+        this.fail(e);
+        return;
+      }
+      this.debug(`Removing stale socket ${this.options.path}`);
+      try {
+        fs.unlinkSync(this.options.path);
+      } catch (unlinkError) {
+        this.fail(unlinkError as Error);
+        return;
+      }
+      this.listen();
+    });
+  }
+
+  private handleClient(client: net.Socket): void {
+    this.clients.add(client);
+    this.debug('Client connected');
+
+    let pending = '';
+    client.setEncoding('utf8');
+    client.on('data', (data: string) => {
+      pending += data;
+      let newline: number;
+      while ((newline = pending.indexOf('\n')) !== -1) {
+        const line = pending.slice(0, newline).trim();
+        pending = pending.slice(newline + 1);
+        if (line) {
+          client.write(JSON.stringify(this.handleLine(line)) + '\n');
+        }
+      }
+      if (pending.length > MAX_LINE) {
+        client.end(JSON.stringify({ ok: false, error: 'request too long' }) + '\n');
+      }
+    });
+    client.on('error', (e) => this.debug(`Client error: ${e.message}`));
+    client.on('close', () => {
+      this.clients.delete(client);
+      this.debug('Client disconnected');
+    });
+  }
+
+  /**
+   * Parse and run one request; the reply echoes its id, if any
+   */
+  private handleLine(line: string): ControlReply {
+    let request: unknown;
+    try {
+      request = JSON.parse(line);
+    } catch {
+      return { ok: false, error: 'invalid JSON' };
+    }
+
+    const id = isObject(request) && request.id !== undefined ? { id: request.id } : {};
+    const problem = checkCommand(request);
+    if (problem) {
+      return { ...id, ok: false, error: problem };
+    }
+
+    try {
+      this.debug(`Command: ${(request as ControlCommand).command}`);
+      return { ...id, ok: true, ...this.options.onCommand(request as ControlCommand) };
+    } catch (e) {
+      return { ...id, ok: false, error: (e as Error).message };
+    }
+  }
+
+  private fail(error: Error): void {
+    this.debug(`Control socket error: ${error.message}`);
+    this.options.onError?.(error);
+  }
+
+  /**
+   * Debug logging helper
+   */
+  private debug(message: string): void {
+    if (this.options.onDebug) {
+      this.options.onDebug(`[ControlSocket] ${message}`);
+    }
+  }
+}
+
+/**
+ * Check the shape of a request; returns a description of the problem
+ */
+function checkCommand(request: unknown): string | null {
+  if (!isObject(request)) {
+    return 'request must be a JSON object';
+  }
+
+  switch (request.command) {
+    case 'commit':
+      return typeof request.text === 'string' ? null : '"text" must be a string';
+    case 'flush':
+    case 'clear':
+    case 'status':
+      return null;
+    case 'set':
+      if (typeof request.option !== 'string') {
+        return '"option" must be a string';
+      }
+      return 'value' in request ? null : '"value" is missing';
+    default:
+      return `unknown command ${JSON.stringify(request.command)} (expected commit, flush, clear, status or set)`;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Factory function for creating a control socket
+ */
+export function createControlSocket(options: ControlSocketOptions): ControlSocket {
+  return new ControlSocket(options);
+}
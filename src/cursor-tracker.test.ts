@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { createCursorTracker } from './cursor-tracker';
+
+function create(columns = 10, autoWrap = true) {
+  return createCursorTracker({ getColumns: () => columns, isAutoWrapEnabled: () => autoWrap });
+}
+
+describe('CursorTracker', () => {
+  it('follows printed text, counting wide characters as two cells', () => {
+    const tracker = create();
+    tracker.scan('$ 你');
+
+    expect(tracker.getColumn()).toBe(4);
+  });
+
+  it('follows carriage returns, backspaces, tabs and cursor movement', () => {
+    const tracker = create(80);
+
+    tracker.scan('abc\r');
+    expect(tracker.getColumn()).toBe(0);
+    tracker.scan('ab\b');
+    expect(tracker.getColumn()).toBe(1);
+    tracker.scan('\t');
+    expect(tracker.getColumn()).toBe(8);
+    tracker.scan('\x1b[3D');
+    expect(tracker.getColumn()).toBe(5);
+    tracker.scan('\x1b[12G');
+    expect(tracker.getColumn()).toBe(11);
+    tracker.scan('\x1b[5;3H');
+    expect(tracker.getColumn()).toBe(2);
+    tracker.scan('\x1b[C');
+    expect(tracker.getColumn()).toBe(3);
+  });
+
+  it('ignores modes, colors and titles', () => {
+    const tracker = create(80);
+    tracker.scan('\x1b[?2004h\x1b[1;32mok\x1b[0m\x1b]0;title\x07\x1b[K');
+
+    expect(tracker.getColumn()).toBe(2);
+  });
+
+  it('keeps a sequence cut across chunks for the next one', () => {
+    const tracker = create(80);
+    tracker.scan('ab\x1b[1');
+    tracker.scan('0G\x1b]0;ti');
+    tracker.scan('tle\x07x');
+
+    expect(tracker.getColumn()).toBe(10);
+  });
+
+  it('restores the column the app saved', () => {
+    const tracker = create(80);
+    tracker.scan('abc\x1b7defg\x1b8');
+
+    expect(tracker.getColumn()).toBe(3);
+  });
+
+  it('wraps at the right margin only when autowrap is on', () => {
+    const wrapping = create(10);
+    wrapping.scan('0123456789');
+    expect(wrapping.getColumn()).toBe(9);
+    wrapping.scan('ab');
+    expect(wrapping.getColumn()).toBe(2);
+
+    const clipping = create(10, false);
+    clipping.scan('0123456789ab');
+    expect(clipping.getColumn()).toBe(9);
+  });
+
+  it('moves a wide character that does not fit to the next line', () => {
+    const tracker = create(10);
+    tracker.scan('012345678你');
+
+    expect(tracker.getColumn()).toBe(2);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Cursor Tracker
+ * Follows the cursor column through the wrapped application's output, so
+ * the proxy can draw at the cursor and step back to it with relative
+ * cursor movement instead of saving the cursor (ESC 7), which would
+ * overwrite a position the app saved itself
+ */
+
+import { charWidth } from './char-width';
+
+/**
+ * One piece of output: a CSI sequence, an OSC/DCS/APC string, another
+ * escape sequence, a run of printable text or any other character
+ */
+const OUTPUT_TOKEN = /\x1b\[([\d;?<=>]*)[ -/]*([@-~])|\x1b[\]PX^_][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[ -/]*([0-~])|([^\x00-\x1f\x7f\x1b]+)|([\s\S])/gu;
+
+/**
+ * Escape sequence or string cut off at the end of a chunk
+ */
+const PARTIAL_SEQUENCE = /\x1b(?:\[[\d;?<=>]*[ -/]*|[\]PX^_][^\x07\x1b]*\x1b?|[ -/]*)$/;
+
+const TAB_WIDTH = 8;
+
+export interface CursorTrackerOptions {
+  /**
+   * Width of the terminal
+   */
+  getColumns: () => number;
+
+  /**
+   * Whether text wraps at the right margin
+   */
+  isAutoWrapEnabled?: () => boolean;
+}
+
+export class CursorTracker {
+  private column = 0;
+  private savedColumn = 0;
+  private pendingWrap = false;
+  private carry = '';
+  private options: CursorTrackerOptions;
+
+  constructor(options: CursorTrackerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Follow a chunk of application output
+   */
+  public scan(data: string): void {
+    let text = this.carry + data;
+
+    // Keep a cut-off sequence for the next chunk
+    const partial = PARTIAL_SEQUENCE.exec(text);
+    this.carry = partial ? partial[0] : '';
+    if (partial) {
+      text = text.slice(0, partial.index);
+    }
+
+    for (const match of text.matchAll(OUTPUT_TOKEN)) {
+      const [, params, csi, escape, printable, char] = match;
+
+      if (csi !== undefined) {
+        this.applyCsi(params, csi);
+      } else if (escape !== undefined) {
+        this.applyEscape(escape);
+      } else if (printable !== undefined) {
+        for (const c of printable) {
+          this.print(charWidth(c));
+        }
+      } else if (char !== undefined) {
+        this.applyControl(char);
+      }
+    }
+  }
+
+  /**
+   * Column of the cursor, from 0
+   */
+  public getColumn(): number {
+    return Math.min(this.column, this.options.getColumns() - 1);
+  }
+
+  private print(width: number): void {
+    if (width === 0) return;
+
+    const columns = this.options.getColumns();
+    const wrap = this.options.isAutoWrapEnabled?.() ?? true;
+
+    // Text after the last column, or a wide character that doesn't fit,
+    // goes to the next line
+    if (wrap && (this.pendingWrap || this.column + width > columns)) {
+      this.column = 0;
+    }
+    this.pendingWrap = false;
+
+    this.column += width;
+    if (this.column >= columns) {
+      this.column = columns - 1;
+      this.pendingWrap = wrap;
+    }
+  }
+
+  private applyCsi(params: string, final: string): void {
+    if (/[?<=>]/.test(params)) return;
+
+    const values = params.split(';').map((value) => parseInt(value, 10));
+    const count = Math.max(1, values[0] || 1);
+
+    switch (final) {
+      case 'G':
+      case '`':
+        this.moveTo(count - 1);
+        break;
+      case 'H':
+      case 'f':
+        this.moveTo(Math.max(1, values[1] || 1) - 1);
+        break;
+      case 'C':
+      case 'a':
+        this.moveTo(this.column + count);
+        break;
+      case 'D':
+        this.moveTo(this.column - count);
+        break;
+      case 'E':
+      case 'F':
+        this.moveTo(0);
+        break;
+      case 'I':
+        this.moveTo((Math.floor(this.column / TAB_WIDTH) + count) * TAB_WIDTH);
+        break;
+      case 'Z':
+        this.moveTo((Math.ceil(this.column / TAB_WIDTH) - count) * TAB_WIDTH);
+        break;
+    }
+  }
+
+  private applyEscape(final: string): void {
+    switch (final) {
+      case '7':
+        this.savedColumn = this.column;
+        break;
+      case '8':
+        this.moveTo(this.savedColumn);
+        break;
+      case 'E':
+      case 'c':
+        this.moveTo(0);
+        break;
+    }
+  }
+
+  private applyControl(char: string): void {
+    switch (char) {
+      case '\r':
+        this.moveTo(0);
+        break;
+      case '\b':
+        this.moveTo(this.column - 1);
+        break;
+      case '\t':
+        this.moveTo((Math.floor(this.column / TAB_WIDTH) + 1) * TAB_WIDTH);
+        break;
+    }
+  }
+
+  private moveTo(column: number): void {
+    this.column = Math.max(0, Math.min(column, this.options.getColumns() - 1));
+    this.pendingWrap = false;
+  }
+}
+
+/**
+ * Factory function for creating a cursor tracker
+ */
+export function createCursorTracker(options: CursorTrackerOptions): CursorTracker {
+  return new CursorTracker(options);
+}
@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { analyzeCalibration, formatCalibration, formatChecks, recordCalibration, runChecks } from './doctor';
+import { createFakePtyFactory } from './fake-pty';
+import { PtyFactory } from './pty';
+
+let dir: string;
+
+/**
+ * Pty backend whose test process exits at once
+ */
+function exitingPtyFactory(): PtyFactory {
+  const factory = createFakePtyFactory();
+  return {
+    spawn: (file, args, options) => {
+      const pty = factory.spawn(file, args, options);
+      setTimeout(() => pty.emitExit(0));
+      return pty;
+    },
+  };
+}
+
+function check(checks: Awaited<ReturnType<typeof runChecks>>, name: string) {
+  return checks.find((result) => result.name === name);
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'timp-doctor-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('runChecks', () => {
+  it('passes a UTF-8 locale, a TERM, a working pty and a valid config', async () => {
+    const configPath = path.join(dir, 'config.json');
+    fs.writeFileSync(configPath, JSON.stringify({ profiles: { vim: { compositionTimeout: 50 } } }));
+
+    const checks = await runChecks({
+      env: { LANG: 'en_US.UTF-8', TERM: 'xterm-256color' },
+      configPath,
+      ptyFactory: exitingPtyFactory(),
+      input: new PassThrough(),
+      output: new PassThrough(),
+    });
+
+    expect(check(checks, 'Locale')).toMatchObject({ status: 'ok', detail: 'LANG=en_US.UTF-8' });
+    expect(check(checks, 'TERM')?.status).toBe('ok');
+    expect(check(checks, 'Pseudo-terminal')?.status).toBe('ok');
+    expect(check(checks, 'Config')).toMatchObject({ status: 'ok', detail: `${configPath} (profiles: vim)` });
+  });
+
+  it('flags a non-UTF-8 locale, a missing TERM, pipes, a broken pty and a bad config', async () => {
+    const configPath = path.join(dir, 'config.json');
+    fs.writeFileSync(configPath, '{"defaults": {"compositionTimeout": -1}}');
+
+    const checks = await runChecks({
+      env: { LC_ALL: 'C' },
+      configPath,
+      ptyFactory: { spawn: () => { throw new Error('node-pty not built'); } },
+      input: new PassThrough(),
+      output: new PassThrough(),
+    });
+
+    expect(check(checks, 'Locale')).toMatchObject({ status: 'fail', detail: 'LC_ALL=C is not UTF-8' });
+    expect(check(checks, 'TERM')?.status).toBe('warn');
+    expect(check(checks, 'TTY')).toMatchObject({ status: 'fail', detail: 'stdin and stdout are not a terminal' });
+    expect(check(checks, 'Pseudo-terminal')).toMatchObject({ status: 'fail', detail: 'cannot start a process: node-pty not built' });
+    expect(check(checks, 'Config')?.status).toBe('fail');
+  });
+
+  it('reports a missing config file as fine', async () => {
+    const configPath = path.join(dir, 'none.json');
+    const checks = await runChecks({ env: {}, configPath, ptyFactory: exitingPtyFactory() });
+
+    expect(check(checks, 'Config')).toMatchObject({ status: 'ok', detail: `none (${configPath} not found)` });
+  });
+});
+
+describe('formatChecks', () => {
+  it('aligns names and prints hints under failures', () => {
+    expect(formatChecks([
+      { name: 'TERM', status: 'ok', detail: 'xterm' },
+      { name: 'Locale', status: 'fail', detail: 'LANG=C is not UTF-8', hint: 'use UTF-8' },
+    ])).toBe([
+      '[ ok ] TERM    xterm',
+      '[FAIL] Locale  LANG=C is not UTF-8',
+      '               → use UTF-8',
+    ].join('\n'));
+  });
+});
+
+describe('recordCalibration', () => {
+  it('collects chunks until Enter and echoes them', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const echoed: string[] = [];
+    output.on('data', (chunk: Buffer) => echoed.push(chunk.toString()));
+
+    const recorded = recordCalibration(input, output);
+    input.write('你');
+    input.write('好\r');
+
+    const chunks = await recorded;
+    expect(chunks?.map((chunk) => chunk.data.toString())).toEqual(['你', '好']);
+    expect(echoed.join('')).toBe('你好');
+  });
+
+  it('resolves null on Esc or Ctrl+C', async () => {
+    const input = new PassThrough();
+    const recorded = recordCalibration(input, new PassThrough());
+    input.write('\x1b');
+
+    await expect(recorded).resolves.toBeNull();
+  });
+});
+
+describe('analyzeCalibration', () => {
+  const chunk = (time: number, text: string) => ({ time, data: Buffer.from(text, 'utf8') });
+
+  it('recommends a timeout from gaps between IME chunks', () => {
+    const result = analyzeCalibration([chunk(0, '你'), chunk(40, '好'), chunk(100, '吗'), chunk(500, ' ')]);
+
+    expect(result.text).toBe('你好吗 ');
+    expect(result.language).toBe('chinese');
+    expect(result.gaps).toEqual([40, 60]);
+    expect(result.chunks.map((c) => c.isIME)).toEqual([true, true, true, false]);
+    expect(result.recommendedTimeout).toBeGreaterThanOrEqual(60);
+  });
+
+  it('applies backspaces to the typed text', () => {
+    expect(analyzeCalibration([chunk(0, 'ab'), chunk(10, '\x7fc')]).text).toBe('ac');
+  });
+});
+
+describe('formatCalibration', () => {
+  it('suggests a config snippet for the profile', () => {
+    const result = analyzeCalibration([
+      { time: 0, data: Buffer.from('việt'.normalize('NFD')) },
+      { time: 30, data: Buffer.from('nam') },
+      { time: 60, data: Buffer.from('ơ') },
+      { time: 90, data: Buffer.from('ư') },
+    ]);
+    const report = formatCalibration(result, 'claude', 'việtnamơư');
+
+    expect(report).toContain('Matches the expected phrase.');
+    expect(report).toContain('"claude"');
+    expect(report).toContain('"normalization": "nfc"');
+    expect(report).toContain(`"compositionTimeout": ${result.recommendedTimeout}`);
+  });
+
+  it('says so when no IME input was seen', () => {
+    const report = formatCalibration(analyzeCalibration([{ time: 0, data: Buffer.from('hello') }]), null);
+
+    expect(report).toContain('No IME input was detected.');
+  });
+});
@@ -0,0 +1,404 @@
+/**
+ * Doctor
+ * Checks the environment for the usual causes of broken IME input and
+ * calibrates the composition timeout from a phrase typed with the user's IME
+ */
+
+import * as fs from 'fs';
+import * as tty from 'tty';
+import { isIMEInput, detectLanguage, Language } from './ime-detector';
+import { createAdaptiveTimeout } from './adaptive-timeout';
+import { createUtf8Decoder } from './utf8-decoder';
+import { ConfigError, getConfigPath, loadConfig } from './config';
+import { PtyFactory, PtyProcess, nodePtyFactory } from './pty';
+
+/**
+ * Result of one check
+ * - ok: nothing to do
+ * - warn: may cause problems
+ * - fail: IME input will not work properly
+ */
+export type CheckStatus = 'ok' | 'warn' | 'fail';
+
+export interface DoctorCheck {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+
+  /**
+   * How to fix it
+   */
+  hint?: string;
+}
+
+export interface DoctorOptions {
+  /**
+   * Environment to check (default: process.env)
+   */
+  env?: NodeJS.ProcessEnv;
+
+  /**
+   * Config file to check (default: getConfigPath())
+   */
+  configPath?: string;
+
+  /**
+   * Pseudo-terminal backend to try (default: node-pty)
+   */
+  ptyFactory?: PtyFactory;
+
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+}
+
+/**
+ * One stdin chunk seen during calibration
+ */
+export interface CalibrationChunk {
+  /**
+   * Milliseconds since the previous chunk (null for the first)
+   */
+  gap: number | null;
+  text: string;
+  isIME: boolean;
+  language: Language | null;
+}
+
+export interface CalibrationResult {
+  chunks: CalibrationChunk[];
+
+  /**
+   * What the app would have received, backspaces applied
+   */
+  text: string;
+
+  /**
+   * Language detected most often
+   */
+  language: Language | null;
+
+  /**
+   * Gaps between consecutive IME chunks, in ms
+   */
+  gaps: number[];
+
+  /**
+   * Suggested compositionTimeout, or null without enough IME chunks
+   */
+  recommendedTimeout: number | null;
+}
+
+const STATUS_LABELS: Record<CheckStatus, string> = {
+  ok: ' ok ',
+  warn: 'warn',
+  fail: 'FAIL',
+};
+
+/**
+ * Spawning a test process through the pty backend gives up after this long
+ */
+const PTY_TEST_TIMEOUT = 5000;
+
+/**
+ * Typing stops counting after this long without Enter
+ */
+const CALIBRATION_TIMEOUT = 60000;
+
+/**
+ * Headroom over the gap --adaptive would learn from the same input
+ */
+const TIMEOUT_MARGIN = 1.2;
+
+/**
+ * Run every environment check
+ */
+export async function runChecks(options: DoctorOptions = {}): Promise<DoctorCheck[]> {
+  const env = options.env ?? process.env;
+  const input = (options.input ?? process.stdin) as tty.ReadStream;
+  const output = (options.output ?? process.stdout) as tty.WriteStream;
+
+  return [
+    checkLocale(env),
+    checkTerm(env),
+    checkTty(input, output),
+    await checkPty(options.ptyFactory ?? nodePtyFactory, env),
+    checkConfig(options.configPath ?? getConfigPath(env)),
+  ];
+}
+
+/**
+ * Text and control bytes must be UTF-8 end to end
+ */
+function checkLocale(env: NodeJS.ProcessEnv): DoctorCheck {
+  const variable = ['LC_ALL', 'LC_CTYPE', 'LANG'].find((name) => env[name]);
+  const value = variable ? env[variable]! : '';
+
+  if (/utf-?8/i.test(value)) {
+    return { name: 'Locale', status: 'ok', detail: `${variable}=${value}` };
+  }
+  return {
+    name: 'Locale',
+    status: 'fail',
+    detail: variable ? `${variable}=${value} is not UTF-8` : 'LANG, LC_CTYPE and LC_ALL are not set',
+    hint: 'export LANG=en_US.UTF-8 (or another UTF-8 locale) in your shell profile',
+  };
+}
+
+/**
+ * TERM is passed on to the app as its terminal name
+ */
+function checkTerm(env: NodeJS.ProcessEnv): DoctorCheck {
+  if (!env.TERM) {
+    return {
+      name: 'TERM',
+      status: 'warn',
+      detail: 'not set; the app will be told it runs in xterm-256color',
+      hint: 'check that your terminal or SSH client sets TERM',
+    };
+  }
+  if (env.TERM === 'dumb') {
+    return {
+      name: 'TERM',
+      status: 'warn',
+      detail: 'TERM=dumb; apps will not draw their UI',
+      hint: 'run from a real terminal emulator',
+    };
+  }
+  return { name: 'TERM', status: 'ok', detail: `${env.TERM} (passed to the app)` };
+}
+
+/**
+ * Raw mode and the app's screen need a terminal on both ends
+ */
+function checkTty(input: tty.ReadStream, output: tty.WriteStream): DoctorCheck {
+  const missing = [!input.isTTY && 'stdin', !output.isTTY && 'stdout'].filter(Boolean);
+
+  if (missing.length > 0) {
+    return {
+      name: 'TTY',
+      status: 'fail',
+      detail: `${missing.join(' and ')} ${missing.length > 1 ? 'are' : 'is'} not a terminal`,
+      hint: 'run timp directly in a terminal, not through a pipe (use ssh -t over SSH)',
+    };
+  }
+  return { name: 'TTY', status: 'ok', detail: `${output.columns}x${output.rows}` };
+}
+
+/**
+ * The native node-pty build loads and can run a process
+ */
+function checkPty(factory: PtyFactory, env: NodeJS.ProcessEnv): Promise<DoctorCheck> {
+  const fail = (detail: string): DoctorCheck => ({
+    name: 'Pseudo-terminal',
+    status: 'fail',
+    detail,
+    hint: 'reinstall, or run "npm rebuild node-pty" where terminal-ime-proxy is installed',
+  });
+
+  return new Promise((resolve) => {
+    let pty: PtyProcess;
+    try {
+      pty = factory.spawn(process.execPath, ['-e', ''], {
+        name: env.TERM || 'xterm-256color',
+        cols: 80,
+        rows: 24,
+        cwd: process.cwd(),
+        env,
+      });
+    } catch (e) {
+      resolve(fail(`cannot start a process: ${(e as Error).message.split('\n')[0]}`));
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      pty.kill();
+      resolve(fail(`test process did not exit within ${PTY_TEST_TIMEOUT / 1000}s`));
+    }, PTY_TEST_TIMEOUT);
+
+    pty.onExit(() => {
+      clearTimeout(timer);
+      resolve({ name: 'Pseudo-terminal', status: 'ok', detail: 'node-pty loads and runs processes' });
+    });
+  });
+}
+
+/**
+ * The config file, if any, is valid
+ */
+function checkConfig(configPath: string): DoctorCheck {
+  try {
+    const config = loadConfig(configPath);
+    const profiles = Object.keys(config.profiles ?? {});
+    return {
+      name: 'Config',
+      status: 'ok',
+      detail: fs.existsSync(configPath)
+        ? `${configPath}${profiles.length > 0 ? ` (profiles: ${profiles.join(', ')})` : ''}`
+        : `none (${configPath} not found)`,
+    };
+  } catch (e) {
+    if (e instanceof ConfigError) {
+      return { name: 'Config', status: 'fail', detail: e.message };
+    }
+    throw e;
+  }
+}
+
+/**
+ * Check results as aligned lines
+ */
+export function formatChecks(checks: DoctorCheck[]): string {
+  const width = Math.max(...checks.map((check) => check.name.length));
+
+  return checks.map((check) => {
+    const line = `[${STATUS_LABELS[check.status]}] ${check.name.padEnd(width)}  ${check.detail}`;
+    return check.hint ? `${line}\n       ${' '.repeat(width)}  → ${check.hint}` : line;
+  }).join('\n');
+}
+
+/**
+ * Read chunks from the terminal until Enter, with their arrival times
+ * Resolves null if the user pressed Ctrl+C or Esc
+ */
+export function recordCalibration(
+  input: NodeJS.ReadableStream,
+  output: NodeJS.WritableStream,
+  timeout = CALIBRATION_TIMEOUT
+): Promise<Array<{ time: number; data: Buffer }> | null> {
+  const stream = input as tty.ReadStream;
+  const chunks: Array<{ time: number; data: Buffer }> = [];
+
+  return new Promise((resolve) => {
+    const finish = (result: typeof chunks | null) => {
+      clearTimeout(timer);
+      input.removeListener('data', onData);
+      input.pause();
+      if (stream.isTTY) {
+        stream.setRawMode(false);
+      }
+      resolve(result);
+    };
+
+    const onData = (data: Buffer | string) => {
+      const bytes = typeof data === 'string' ? Buffer.from(data, 'utf8') : data;
+      if (bytes.includes(0x03) || (bytes.length === 1 && bytes[0] === 0x1b)) {
+        finish(null);
+        return;
+      }
+
+      const enter = bytes.findIndex((byte) => byte === 0x0d || byte === 0x0a);
+      const text = enter === -1 ? bytes : bytes.subarray(0, enter);
+      if (text.length > 0) {
+        chunks.push({ time: Number(process.hrtime.bigint()) / 1e6, data: text });
+        // Raw mode doesn't echo
+        output.write(text.toString('utf8').replace(/[\x7f\x08]/g, '\b \b'));
+      }
+      if (enter !== -1) {
+        finish(chunks);
+      }
+    };
+
+    const timer = setTimeout(() => finish(chunks), timeout);
+
+    if (stream.isTTY) {
+      stream.setRawMode(true);
+    }
+    input.on('data', onData);
+    input.resume();
+  });
+}
+
+/**
+ * Run each chunk through the IME detector and derive a timeout from the
+ * gaps between IME chunks
+ */
+export function analyzeCalibration(recorded: Array<{ time: number; data: Buffer }>): CalibrationResult {
+  const decoder = createUtf8Decoder();
+  const chunks: CalibrationChunk[] = [];
+  const gaps: number[] = [];
+  const languages = new Map<Language, number>();
+  let text = '';
+
+  recorded.forEach(({ time, data }, i) => {
+    const decoded = decoder.write(data);
+    const isIME = isIMEInput(decoded);
+    const language = isIME ? detectLanguage(decoded) : null;
+    const gap = i > 0 ? time - recorded[i - 1].time : null;
+
+    if (gap !== null && isIME && chunks[i - 1].isIME) {
+      gaps.push(gap);
+    }
+    if (language) {
+      languages.set(language, (languages.get(language) ?? 0) + 1);
+    }
+    chunks.push({ gap, text: decoded, isIME, language });
+
+    for (const char of decoded) {
+      text = char === '\x7f' || char === '\x08' ? [...text].slice(0, -1).join('') : text + char;
+    }
+  });
+
+  const language = [...languages.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+  // Same percentile as --adaptive, learned from this one phrase
+  let recommendedTimeout: number | null = null;
+  if (gaps.length > 0) {
+    const adaptive = createAdaptiveTimeout(50, { minSamples: 1 });
+    for (const gap of gaps) {
+      adaptive.record(language, gap);
+    }
+    recommendedTimeout = Math.ceil((adaptive.timeoutFor(language) * TIMEOUT_MARGIN) / 10) * 10;
+  }
+
+  return { chunks, text, language, gaps, recommendedTimeout };
+}
+
+/**
+ * Calibration report with a config snippet for the given profile
+ */
+export function formatCalibration(result: CalibrationResult, profile: string | null, phrase?: string): string {
+  const lines: string[] = ['Chunks received:'];
+
+  for (const chunk of result.chunks) {
+    const gap = chunk.gap === null ? 'first' : `+${Math.round(chunk.gap)}ms`;
+    const verdict = chunk.isIME ? `IME (${chunk.language ?? 'unknown'})` : 'regular';
+    lines.push(`  ${gap.padStart(8)}  ${JSON.stringify(chunk.text.replace(/\x7f/g, '⌫')).padEnd(24)} ${verdict}`);
+  }
+
+  lines.push('', `Typed: ${JSON.stringify(result.text)}`);
+  if (phrase !== undefined) {
+    lines.push(result.text.normalize('NFC') === phrase.normalize('NFC')
+      ? 'Matches the expected phrase.'
+      : `Expected ${JSON.stringify(phrase)}; the IME or the terminal changed what was typed.`);
+  }
+
+  if (!result.chunks.some((chunk) => chunk.isIME)) {
+    lines.push('', 'No IME input was detected. Is your input method switched on?',
+      'Without an OS input method, try --engine telex|vni|viqr|hangul.');
+    return lines.join('\n');
+  }
+
+  const settings: Record<string, unknown> = {};
+  if (result.recommendedTimeout !== null) {
+    lines.push('', `IME chunks arrived up to ${Math.round(Math.max(...result.gaps))}ms apart; ` +
+      `recommended compositionTimeout: ${result.recommendedTimeout}ms.`);
+    settings.compositionTimeout = result.recommendedTimeout;
+  } else {
+    lines.push('', 'Your IME sent each commit in one chunk; the default timeout is fine.');
+  }
+  if (result.text !== result.text.normalize('NFC')) {
+    lines.push('Your IME sends decomposed characters (base letter + combining mark).');
+    settings.normalization = 'nfc';
+  }
+
+  if (Object.keys(settings).length > 0) {
+    const block = profile ? { profiles: { [profile]: settings } } : { defaults: settings };
+    lines.push('', `Add to ${getConfigPath()}:`, '', indent(JSON.stringify(block, null, 2)));
+  }
+
+  return lines.join('\n');
+}
+
+function indent(text: string): string {
+  return text.split('\n').map((line) => `  ${line}`).join('\n');
+}
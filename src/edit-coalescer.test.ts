@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createEditCoalescer, EditCoalescerOptions } from './edit-coalescer';
+
+function create(options: Partial<EditCoalescerOptions> = {}) {
+  const edits: Array<[number, string]> = [];
+  const coalescer = createEditCoalescer({
+    onEdit: (deletes, insert) => edits.push([deletes, insert]),
+    ...options,
+  });
+  return { coalescer, edits };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('EditCoalescer.process', () => {
+  it('turns backspaces and replacement text in one chunk into one edit', () => {
+    const { coalescer, edits } = create();
+
+    expect(coalescer.process('\x7f\x7f\x7fào')).toBe(true);
+    expect(edits).toEqual([[3, 'ào']]);
+  });
+
+  it('joins backspaces with replacement text in the next chunk', () => {
+    const { coalescer, edits } = create();
+
+    coalescer.process('\x7f\x7f');
+    coalescer.process('\x7f');
+    coalescer.process('ào');
+
+    expect(edits).toEqual([[3, 'ào']]);
+  });
+
+  it('releases held backspaces after the edit window or before other input', () => {
+    vi.useFakeTimers();
+    const { coalescer, edits } = create({ editWindow: 15 });
+
+    coalescer.process('\x7f');
+    vi.advanceTimersByTime(15);
+    coalescer.process('\x7f');
+    expect(coalescer.process('\r')).toBe(false);
+
+    expect(edits).toEqual([[1, ''], [1, '']]);
+  });
+
+  it('leaves other input alone', () => {
+    const { coalescer, edits } = create();
+
+    expect(coalescer.process('chao')).toBe(false);
+    expect(coalescer.process('\x1b[D')).toBe(false);
+    expect(edits).toEqual([]);
+  });
+});
+
+describe('EditCoalescer.diff', () => {
+  it('keeps the part the app already has', () => {
+    const { coalescer } = create();
+    coalescer.record('chao');
+
+    // "chao" + 3 x DEL + "hào" only needs "ao" replaced
+    const edit = coalescer.diff('', 3, 'hào');
+    expect(edit).toEqual({ deleteCount: 2, insert: 'ào' });
+    expect(coalescer.encode(edit)).toBe('\x7f\x7fào');
+  });
+
+  it('rewrites the tail when nothing more is shared', () => {
+    const { coalescer } = create();
+    coalescer.record('chao');
+
+    expect(coalescer.diff('', 3, 'ào')).toEqual({ deleteCount: 3, insert: 'ào' });
+    expect(coalescer.diff('', 1, 'o')).toEqual({ deleteCount: 0, insert: '' });
+  });
+
+  it('counts text still held by the caller', () => {
+    const { coalescer } = create();
+    coalescer.record('vi');
+
+    expect(coalescer.diff('et', 2, 'ệt')).toEqual({ deleteCount: 0, insert: 'ệt' });
+  });
+
+  it('deletes past the remembered text as asked', () => {
+    const { coalescer } = create();
+    coalescer.record('a');
+
+    expect(coalescer.diff('', 3, 'b')).toEqual({ deleteCount: 3, insert: 'b' });
+  });
+
+  it('counts a letter with its marks as one character', () => {
+    const { coalescer } = create();
+    coalescer.record('việ');
+
+    expect(coalescer.diff('', 1, 'ê')).toEqual({ deleteCount: 1, insert: 'ê' });
+  });
+
+  it('encodes deletes with the backspace byte the IME used', () => {
+    const { coalescer } = create();
+    coalescer.process('\x08\x08ab');
+
+    expect(coalescer.encode({ deleteCount: 2, insert: 'x' })).toBe('\x08\x08x');
+  });
+});
+
+describe('EditCoalescer.record', () => {
+  it('follows backspaces and forgets text before controls', () => {
+    const { coalescer } = create({ historySize: 3 });
+
+    coalescer.record('ab\x7fc');
+    expect(coalescer.getHistory()).toBe('ac');
+
+    coalescer.record('\rxyzw');
+    expect(coalescer.getHistory()).toBe('yzw');
+
+    coalescer.reset();
+    expect(coalescer.getHistory()).toBe('');
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Edit Coalescer
+ * Recognizes the "backspace-and-replace" edits sent by Vietnamese IMEs
+ * (Unikey, ibus-bamboo, OpenKey) and turns them into one net edit
+ *
+ * Characters are grapheme clusters throughout, as in the composition
+ * buffer: one backspace deletes what the user sees as one character
+ */
+
+import { splitGraphemes } from './grapheme';
+
+/**
+ * Bytes an IME uses to delete the previous character
+ */
+const BACKSPACE_CHARS = /^[\x7F\x08]+$/;
+
+/**
+ * A run of backspaces followed by replacement text
+ */
+const BACKSPACE_AND_TEXT = /^([\x7F\x08]+)([^\x00-\x1F\x7F]+)$/;
+
+/**
+ * Text with no control bytes at all
+ */
+const PLAIN_TEXT = /^[^\x00-\x1F\x7F]+$/;
+
+/**
+ * Minimal edit to send to the app: delete N characters, then insert text
+ */
+export interface NetEdit {
+  deleteCount: number;
+  insert: string;
+}
+
+export interface EditCoalescerOptions {
+  /**
+   * Time in ms to wait after a chunk of backspaces for the replacement
+   * text to arrive in a following chunk. 0 disables cross-chunk coalescing.
+   * Default: 15ms
+   */
+  editWindow?: number;
+
+  /**
+   * Number of characters (grapheme clusters) of sent text to remember
+   * Default: 64
+   */
+  historySize?: number;
+
+  /**
+   * Callback for a coalesced edit (raw backspace count plus inserted text)
+   */
+  onEdit: (deletes: number, insert: string) => void;
+
+  /**
+   * Optional callback for debug logging
+   */
+  onDebug?: (message: string) => void;
+}
+
+export class EditCoalescer {
+  /**
+   * Grapheme clusters of the text sent, oldest first
+   */
+  private history: string[] = [];
+  private pendingDeletes = 0;
+  private pendingTimer: NodeJS.Timeout | null = null;
+  private backspaceChar = '\x7f';
+
+  private options: Required<Omit<EditCoalescerOptions, 'onDebug'>> & { onDebug?: (msg: string) => void };
+  private readonly DEFAULT_WINDOW = 15; // ms
+  private readonly DEFAULT_HISTORY_SIZE = 64;
+
+  constructor(options: EditCoalescerOptions) {
+    this.options = {
+      editWindow: options.editWindow ?? this.DEFAULT_WINDOW,
+      historySize: options.historySize ?? this.DEFAULT_HISTORY_SIZE,
+      onEdit: options.onEdit,
+      onDebug: options.onDebug,
+    };
+  }
+
+  /**
+   * Process incoming input
+   * Returns true if the input was consumed as (part of) an edit
+   */
+  public process(input: string): boolean {
+    // Replacement text for backspaces held from a previous chunk
+    if (this.pendingDeletes > 0 && PLAIN_TEXT.test(input)) {
+      this.debug(`Replacement text joins ${this.pendingDeletes} held backspace(s)`);
+      this.emit(input);
+      return true;
+    }
+
+    // Backspaces only - hold them until the replacement arrives
+    if (BACKSPACE_CHARS.test(input)) {
+      this.backspaceChar = input[input.length - 1];
+      this.pendingDeletes += input.length;
+      this.debug(`Holding ${this.pendingDeletes} backspace(s)`);
+
+      if (this.options.editWindow <= 0) {
+        this.emit('');
+      } else {
+        this.restartTimer();
+      }
+      return true;
+    }
+
+    // Backspaces and replacement text in the same chunk
+    const match = BACKSPACE_AND_TEXT.exec(input);
+    if (match) {
+      this.backspaceChar = match[1][match[1].length - 1];
+      this.pendingDeletes += match[1].length;
+      this.debug(`Backspace-and-replace: ${this.pendingDeletes} delete(s) + "${match[2]}"`);
+      this.emit(match[2]);
+      return true;
+    }
+
+    // Anything else ends the edit
+    this.release();
+    return false;
+  }
+
+  /**
+   * Emit any held backspaces as a plain delete
+   */
+  public release(): void {
+    if (this.pendingDeletes > 0) {
+      this.emit('');
+    }
+  }
+
+  /**
+   * Compute the minimal edit against the text already sent to the app
+   * `pending` is text still held by the caller that the IME can also see
+   */
+  public diff(pending: string, deletes: number, insert: string): NetEdit {
+    const known = [...this.history, ...splitGraphemes(pending)];
+    const overflow = Math.max(0, deletes - known.length);
+    const after = splitGraphemes(known.slice(0, known.length - (deletes - overflow)).join('') + insert);
+
+    // Common prefix between what the app has and what it should have
+    let prefix = 0;
+    if (overflow === 0) {
+      while (
+        prefix < this.history.length &&
+        prefix < after.length &&
+        this.history[prefix] === after[prefix]
+      ) {
+        prefix++;
+      }
+    }
+
+    return {
+      deleteCount: this.history.length - prefix + overflow,
+      insert: after.slice(prefix).join(''),
+    };
+  }
+
+  /**
+   * Encode a net edit as the bytes to send to the app
+   */
+  public encode(edit: NetEdit): string {
+    return this.backspaceChar.repeat(edit.deleteCount) + edit.insert;
+  }
+
+  /**
+   * Record text sent to the app so later edits can be diffed against it
+   */
+  public record(text: string): void {
+    for (const char of text) {
+      if (char === '\x7f' || char === '\x08') {
+        this.history.pop();
+      } else if (char.charCodeAt(0) < 0x20 || char === '\x1b') {
+        // Enter, escape sequences and other controls move the cursor
+        // somewhere we can't follow
+        this.history = [];
+      } else {
+        // A combining mark or joiner extends the last cluster
+        this.history.push(...splitGraphemes((this.history.pop() ?? '') + char));
+      }
+    }
+
+    if (this.history.length > this.options.historySize) {
+      this.history = this.history.slice(-this.options.historySize);
+    }
+  }
+
+  /**
+   * Get the remembered tail of text sent to the app
+   */
+  public getHistory(): string {
+    return this.history.join('');
+  }
+
+  /**
+   * Forget everything sent so far
+   */
+  public reset(): void {
+    this.history = [];
+  }
+
+  /**
+   * Cleanup resources
+   */
+  public destroy(): void {
+    this.clearTimer();
+  }
+
+  /**
+   * Hand the held deletes and their replacement to the caller
+   */
+  private emit(insert: string): void {
+    const deletes = this.pendingDeletes;
+    this.pendingDeletes = 0;
+    this.clearTimer();
+    this.options.onEdit(deletes, insert);
+  }
+
+  private restartTimer(): void {
+    this.clearTimer();
+    this.pendingTimer = setTimeout(() => {
+      this.pendingTimer = null;
+      this.debug('Edit window expired');
+      this.release();
+    }, this.options.editWindow);
+  }
+
+  private clearTimer(): void {
+    if (this.pendingTimer) {
+      clearTimeout(this.pendingTimer);
+      this.pendingTimer = null;
+    }
+  }
+
+  /**
+   * Debug logging helper
+   */
+  private debug(message: string): void {
+    if (this.options.onDebug) {
+      this.options.onDebug(`[EditCoalescer] ${message}`);
+    }
+  }
+}
+
+/**
+ * Factory function for creating an edit coalescer
+ */
+export function createEditCoalescer(options: EditCoalescerOptions): EditCoalescer {
+  return new EditCoalescer(options);
+}
@@ -0,0 +1,134 @@
+/**
+ * Fake PTY
+ * In-memory pty backend for tests and embedding: records what the proxy
+ * writes and lets the caller play the application's side
+ */
+
+import type { PtyDisposable, PtyExitEvent, PtyFactory, PtyProcess, PtySpawnOptions } from './pty';
+
+const KEEP_RUNNING = new Set(['SIGTSTP', 'SIGSTOP', 'SIGCONT', 'SIGWINCH']);
+
+export class FakePty implements PtyProcess {
+  public readonly pid: number;
+  public readonly file: string;
+  public readonly args: string[];
+  public readonly options: PtySpawnOptions;
+  public cols: number;
+  public rows: number;
+
+  /**
+   * Every write from the proxy, in order
+   */
+  public readonly writes: string[] = [];
+
+  /**
+   * Every signal sent with kill(), in order
+   */
+  public readonly signals: string[] = [];
+
+  /**
+   * Exit event once the fake app has exited
+   */
+  public exitEvent: PtyExitEvent | null = null;
+
+  private dataListeners = new Set<(data: string) => void>();
+  private exitListeners = new Set<(event: PtyExitEvent) => void>();
+
+  private static nextPid = 10000;
+
+  constructor(file: string, args: string[], options: PtySpawnOptions) {
+    this.pid = FakePty.nextPid++;
+    this.file = file;
+    this.args = args;
+    this.options = options;
+    this.cols = options.cols;
+    this.rows = options.rows;
+  }
+
+  /**
+   * Everything written by the proxy as one string
+   */
+  public get written(): string {
+    return this.writes.join('');
+  }
+
+  public write(data: string): void {
+    if (this.exitEvent) return;
+    this.writes.push(data);
+  }
+
+  public resize(cols: number, rows: number): void {
+    this.cols = cols;
+    this.rows = rows;
+  }
+
+  /**
+   * Killing the fake app makes it exit by that signal (default SIGHUP)
+   * Stop, continue and resize signals leave it running
+   */
+  public kill(signal: string = 'SIGHUP'): void {
+    this.signals.push(signal);
+    if (KEEP_RUNNING.has(signal)) return;
+
+    const signals: Record<string, number> = { SIGHUP: 1, SIGINT: 2, SIGKILL: 9, SIGTERM: 15 };
+    this.emitExit(0, signals[signal] ?? 1);
+  }
+
+  public onData(listener: (data: string) => void): PtyDisposable {
+    this.dataListeners.add(listener);
+    return { dispose: () => this.dataListeners.delete(listener) };
+  }
+
+  public onExit(listener: (event: PtyExitEvent) => void): PtyDisposable {
+    this.exitListeners.add(listener);
+    return { dispose: () => this.exitListeners.delete(listener) };
+  }
+
+  /**
+   * Simulate output from the app
+   */
+  public emitData(data: string): void {
+    for (const listener of this.dataListeners) {
+      listener(data);
+    }
+  }
+
+  /**
+   * Simulate the app exiting
+   */
+  public emitExit(exitCode: number, signal?: number): void {
+    if (this.exitEvent) return;
+
+    this.exitEvent = { exitCode, signal };
+    for (const listener of this.exitListeners) {
+      listener(this.exitEvent);
+    }
+  }
+}
+
+/**
+ * Factory that creates FakePty instances and keeps them for inspection
+ */
+export class FakePtyFactory implements PtyFactory {
+  public readonly instances: FakePty[] = [];
+
+  public spawn(file: string, args: string[], options: PtySpawnOptions): FakePty {
+    const pty = new FakePty(file, args, options);
+    this.instances.push(pty);
+    return pty;
+  }
+
+  /**
+   * Most recently spawned pty
+   */
+  public get last(): FakePty | undefined {
+    return this.instances[this.instances.length - 1];
+  }
+}
+
+/**
+ * Factory function for creating a fake pty factory
+ */
+export function createFakePtyFactory(): FakePtyFactory {
+  return new FakePtyFactory();
+}
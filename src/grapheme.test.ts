@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { graphemeLength, removeLastGrapheme, splitGraphemes, splitOpenCluster } from './grapheme';
+
+const NFD_VIET = 'vie\u0302\u0323t';
+const JAMO_GAK = '\u1100\u1161\u11a8';
+const CODER = '\u{1F469}\u200d\u{1F4BB}';
+const FLAG_VN = '\u{1F1FB}\u{1F1F3}';
+
+describe('splitGraphemes', () => {
+  it('keeps letters with their marks, jamo syllables, ZWJ sequences and flags whole', () => {
+    expect(splitGraphemes(NFD_VIET)).toEqual(['v', 'i', 'e\u0302\u0323', 't']);
+    expect(splitGraphemes(JAMO_GAK + CODER + FLAG_VN)).toEqual([JAMO_GAK, CODER, FLAG_VN]);
+    expect(graphemeLength(NFD_VIET + CODER)).toBe(5);
+  });
+});
+
+describe('removeLastGrapheme', () => {
+  it('removes a whole cluster', () => {
+    expect(removeLastGrapheme('vie\u0302\u0323')).toBe('vi');
+    expect(removeLastGrapheme('a' + FLAG_VN)).toBe('a');
+    expect(removeLastGrapheme('')).toBe('');
+  });
+});
+
+describe('splitOpenCluster', () => {
+  it('splits off a cluster the next input may extend', () => {
+    expect(splitOpenCluster('hi\u{1F469}\u200d')).toEqual({ complete: 'hi', open: '\u{1F469}\u200d' });
+    expect(splitOpenCluster('\uac00\u1100')).toEqual({ complete: '\uac00', open: '\u1100' });
+    expect(splitOpenCluster('a\u{1F1FB}')).toEqual({ complete: 'a', open: '\u{1F1FB}' });
+    expect(splitOpenCluster('\u0915\u094d')).toEqual({ complete: '', open: '\u0915\u094d' });
+  });
+
+  it('leaves finished text whole', () => {
+    expect(splitOpenCluster(FLAG_VN)).toEqual({ complete: FLAG_VN, open: '' });
+    expect(splitOpenCluster(JAMO_GAK)).toEqual({ complete: JAMO_GAK, open: '' });
+    expect(splitOpenCluster('')).toEqual({ complete: '', open: '' });
+  });
+});
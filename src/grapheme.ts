@@ -0,0 +1,60 @@
+/**
+ * Grapheme Clusters
+ * Splits text into extended grapheme clusters, what the user sees as one
+ * character (ệ in NFD, 각 as jamo, 👩‍💻, 🇻🇳), so editing and flushing never
+ * break one apart
+ */
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+/**
+ * Endings of a cluster that the next input may still extend: a zero width
+ * joiner, a virama, or a Hangul leading consonant or vowel jamo
+ */
+const OPEN_ENDING = /[\u200D\u094D\u1100-\u11A7\uA960-\uA97F\uD7B0-\uD7C6]$/u;
+
+/**
+ * A regional indicator waiting for the second letter of its flag
+ */
+const LONE_REGIONAL_INDICATOR = /^\p{Regional_Indicator}$/u;
+
+/**
+ * Split text into grapheme clusters
+ */
+export function splitGraphemes(text: string): string[] {
+  return Array.from(segmenter.segment(text), (segment) => segment.segment);
+}
+
+/**
+ * Number of grapheme clusters in text
+ */
+export function graphemeLength(text: string): number {
+  let length = 0;
+  for (const _ of segmenter.segment(text)) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * Text without its last grapheme cluster
+ */
+export function removeLastGrapheme(text: string): string {
+  const clusters = splitGraphemes(text);
+  clusters.pop();
+  return clusters.join('');
+}
+
+/**
+ * Split off a last cluster the next input may still extend
+ * open is empty when the text ends with a finished cluster
+ */
+export function splitOpenCluster(text: string): { complete: string; open: string } {
+  const clusters = splitGraphemes(text);
+  const last = clusters[clusters.length - 1] ?? '';
+
+  if (OPEN_ENDING.test(last) || LONE_REGIONAL_INDICATOR.test(last)) {
+    return { complete: clusters.slice(0, -1).join(''), open: last };
+  }
+  return { complete: text, open: '' };
+}
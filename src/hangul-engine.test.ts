@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { HangulEngine } from './hangul-engine';
+
+/**
+ * Type keys into the engine, collecting committed text like the pipeline
+ * does; returns what was committed and the remaining pre-edit
+ */
+function type(engine: HangulEngine, keys: string): { committed: string; preedit: string } {
+  let committed = '';
+  for (const key of keys) {
+    if (!engine.process(key)) {
+      committed += engine.getPreedit() + key;
+      engine.reset();
+      continue;
+    }
+    committed += engine.takeCommit();
+  }
+  return { committed, preedit: engine.getPreedit() };
+}
+
+function compose(keys: string): string {
+  const { committed, preedit } = type(new HangulEngine(), keys);
+  return committed + preedit;
+}
+
+describe('HangulEngine', () => {
+  it('composes syllables from dubeolsik keys', () => {
+    expect(compose('gksrmf')).toBe('한글');
+    expect(compose('dkssudgktpdy')).toBe('안녕하세요');
+  });
+
+  it('commits finished syllables while the last one stays in the pre-edit', () => {
+    const { committed, preedit } = type(new HangulEngine(), 'gksrmf');
+
+    expect(committed).toBe('한');
+    expect(preedit).toBe('글');
+  });
+
+  it('moves a final consonant to the next syllable when a vowel follows', () => {
+    const { committed, preedit } = type(new HangulEngine(), 'gksk');
+
+    expect(committed).toBe('하');
+    expect(preedit).toBe('나');
+  });
+
+  it('removes the last jamo on backspace', () => {
+    const engine = new HangulEngine();
+    type(engine, 'gks');
+
+    expect(engine.backspace()).toBe(true);
+    expect(engine.getPreedit()).toBe('하');
+  });
+
+  it('leaves keys without jamo to the caller', () => {
+    expect(new HangulEngine().process('1')).toBe(false);
+  });
+});
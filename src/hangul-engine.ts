@@ -0,0 +1,185 @@
+/**
+ * Hangul Engine
+ * Dubeolsik (2-set) Korean input: QWERTY keys map to jamo, which are
+ * assembled into syllables; a syllable is committed once the next key
+ * can't join it
+ */
+
+import type { Language } from './ime-detector';
+import type { InputEngine } from './input-engine';
+
+/**
+ * Dubeolsik layout; shifted keys give the tense consonants and ㅒ ㅖ
+ */
+const KEYMAP: Record<string, string> = {
+  q: 'ㅂ', w: 'ㅈ', e: 'ㄷ', r: 'ㄱ', t: 'ㅅ', y: 'ㅛ', u: 'ㅕ', i: 'ㅑ', o: 'ㅐ', p: 'ㅔ',
+  a: 'ㅁ', s: 'ㄴ', d: 'ㅇ', f: 'ㄹ', g: 'ㅎ', h: 'ㅗ', j: 'ㅓ', k: 'ㅏ', l: 'ㅣ',
+  z: 'ㅋ', x: 'ㅌ', c: 'ㅊ', v: 'ㅍ', b: 'ㅠ', n: 'ㅜ', m: 'ㅡ',
+  Q: 'ㅃ', W: 'ㅉ', E: 'ㄸ', R: 'ㄲ', T: 'ㅆ', O: 'ㅒ', P: 'ㅖ',
+};
+
+/**
+ * Jamo in Unicode syllable order
+ */
+const INITIALS = [...'ㄱㄲㄴㄷㄸㄹㅁㅂㅃㅅㅆㅇㅈㅉㅊㅋㅌㅍㅎ'];
+const MEDIALS = [...'ㅏㅐㅑㅒㅓㅔㅕㅖㅗㅘㅙㅚㅛㅜㅝㅞㅟㅠㅡㅢㅣ'];
+const FINALS = ['', ...'ㄱㄲㄳㄴㄵㄶㄷㄹㄺㄻㄼㄽㄾㄿㅀㅁㅂㅄㅅㅆㅇㅈㅊㅋㅌㅍㅎ'];
+
+const COMPOUND_MEDIALS: Record<string, string> = {
+  'ㅗㅏ': 'ㅘ', 'ㅗㅐ': 'ㅙ', 'ㅗㅣ': 'ㅚ',
+  'ㅜㅓ': 'ㅝ', 'ㅜㅔ': 'ㅞ', 'ㅜㅣ': 'ㅟ',
+  'ㅡㅣ': 'ㅢ',
+};
+
+const COMPOUND_FINALS: Record<string, string> = {
+  'ㄱㅅ': 'ㄳ', 'ㄴㅈ': 'ㄵ', 'ㄴㅎ': 'ㄶ',
+  'ㄹㄱ': 'ㄺ', 'ㄹㅁ': 'ㄻ', 'ㄹㅂ': 'ㄼ', 'ㄹㅅ': 'ㄽ', 'ㄹㅌ': 'ㄾ', 'ㄹㅍ': 'ㄿ', 'ㄹㅎ': 'ㅀ',
+  'ㅂㅅ': 'ㅄ',
+};
+
+/**
+ * Compound finals split back into the part that stays and the part that
+ * moves to the next syllable
+ */
+const FINAL_PARTS: Record<string, [string, string]> = Object.fromEntries(
+  Object.entries(COMPOUND_FINALS).map(([parts, compound]) => [compound, [parts[0], parts[1]]])
+);
+
+const SYLLABLE_BASE = 0xac00;
+
+interface Syllable {
+  initial: string;
+  medial: string;
+  final: string;
+}
+
+export class HangulEngine implements InputEngine {
+  public readonly name = 'hangul';
+  public readonly language: Language = 'korean';
+  private syllable: Syllable = emptySyllable();
+
+  /**
+   * Jamo typed for the syllable being composed
+   */
+  private jamo: string[] = [];
+
+  /**
+   * Finished syllables not yet taken by the caller
+   */
+  private committed = '';
+
+  public process(char: string): boolean {
+    const jamo = KEYMAP[char] ?? KEYMAP[char.toLowerCase()];
+    if (!jamo) {
+      return false;
+    }
+
+    this.feed(jamo);
+    return true;
+  }
+
+  public backspace(): boolean {
+    if (this.jamo.length === 0) {
+      return false;
+    }
+
+    // Rebuild the syllable without its last jamo
+    this.start(this.jamo.slice(0, -1));
+    return true;
+  }
+
+  public takeCommit(): string {
+    const text = this.committed;
+    this.committed = '';
+    return text;
+  }
+
+  public getPreedit(): string {
+    return render(this.syllable);
+  }
+
+  public reset(): void {
+    this.syllable = emptySyllable();
+    this.jamo = [];
+    this.committed = '';
+  }
+
+  /**
+   * Add one jamo to the syllable, finishing it if the jamo can't join
+   */
+  private feed(jamo: string): void {
+    const syllable = this.syllable;
+
+    if (MEDIALS.includes(jamo)) {
+      if (syllable.final) {
+        // The final consonant (or its second half) begins the next syllable: 각 + ㅏ → 가가
+        const [keep, move] = FINAL_PARTS[syllable.final] ?? ['', syllable.final];
+        this.finish({ ...syllable, final: keep });
+        this.start([move, jamo]);
+        return;
+      }
+
+      if (syllable.medial) {
+        const compound = COMPOUND_MEDIALS[syllable.medial + jamo];
+        if (!compound) {
+          this.finish(syllable);
+          this.start([jamo]);
+          return;
+        }
+        syllable.medial = compound;
+      } else {
+        syllable.medial = jamo;
+      }
+
+      this.jamo.push(jamo);
+      return;
+    }
+
+    if (!syllable.initial && !syllable.medial) {
+      syllable.initial = jamo;
+    } else if (syllable.initial && syllable.medial && !syllable.final && FINALS.includes(jamo)) {
+      syllable.final = jamo;
+    } else if (syllable.final && COMPOUND_FINALS[syllable.final + jamo]) {
+      syllable.final = COMPOUND_FINALS[syllable.final + jamo];
+    } else {
+      this.finish(syllable);
+      this.start([jamo]);
+      return;
+    }
+
+    this.jamo.push(jamo);
+  }
+
+  /**
+   * Begin a new syllable from a list of jamo
+   */
+  private start(jamo: string[]): void {
+    this.syllable = emptySyllable();
+    this.jamo = [];
+    for (const j of jamo) {
+      this.feed(j);
+    }
+  }
+
+  private finish(syllable: Syllable): void {
+    this.committed += render(syllable);
+  }
+}
+
+function emptySyllable(): Syllable {
+  return { initial: '', medial: '', final: '' };
+}
+
+/**
+ * Precomposed syllable, or the lone jamo typed so far
+ */
+function render(syllable: Syllable): string {
+  if (!syllable.initial || !syllable.medial) {
+    return syllable.initial + syllable.medial;
+  }
+
+  const initial = INITIALS.indexOf(syllable.initial);
+  const medial = MEDIALS.indexOf(syllable.medial);
+  const final = FINALS.indexOf(syllable.final);
+  return String.fromCharCode(SYLLABLE_BASE + (initial * MEDIALS.length + medial) * FINALS.length + final);
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { createScriptDetector, detectLanguage, isIMEInput, rankScripts } from './ime-detector';
+
+describe('isIMEInput', () => {
+  it('buffers Vietnamese written with Latin-1 accents', () => {
+    for (const word of ['tôi', 'chào', 'có', 'là', 'Việt', 'được']) {
+      expect(isIMEInput(word)).toBe(true);
+    }
+  });
+
+  it('buffers decomposed Vietnamese', () => {
+    expect(isIMEInput('chào'.normalize('NFD'))).toBe(true);
+    expect(isIMEInput('việt'.normalize('NFD'))).toBe(true);
+  });
+
+  it('buffers CJK, Thai, Arabic and Devanagari text', () => {
+    for (const text of ['你好', 'こんにちは', '한글', 'สวัสดี', 'مرحبا', 'नमस्ते', '。']) {
+      expect(isIMEInput(text)).toBe(true);
+    }
+  });
+
+  it('does not buffer ASCII, emoji, symbols or letters Vietnamese lacks', () => {
+    for (const text of ['hello', '😀', '👍🏽', '→', '€', 'Straße', 'niño', 'über']) {
+      expect(isIMEInput(text)).toBe(false);
+    }
+  });
+});
+
+describe('detectLanguage', () => {
+  it('detects Vietnamese from Latin-1 accents alone', () => {
+    expect(detectLanguage('chào')).toBe('vietnamese');
+    expect(detectLanguage('tôi là')).toBe('vietnamese');
+  });
+
+  it('returns null for emoji and unknown scripts', () => {
+    expect(detectLanguage('😀')).toBeNull();
+    expect(detectLanguage('abc')).toBeNull();
+    expect(detectLanguage('Straße')).toBeNull();
+  });
+
+  it('picks the script with the most characters', () => {
+    expect(detectLanguage('日本語です')).toBe('japanese');
+    expect(detectLanguage('中文')).toBe('chinese');
+    expect(detectLanguage('한국어 漢字')).toBe('korean');
+  });
+});
+
+describe('rankScripts', () => {
+  it('ranks every script found, most characters first', () => {
+    expect(rankScripts('한글 中')).toEqual([
+      { script: 'korean', language: 'korean', count: 3 },
+      { script: 'chinese', language: 'chinese', count: 1 },
+    ]);
+  });
+
+  it('counts shared letters for Vietnamese once one of its own is seen', () => {
+    expect(rankScripts('ñệ')[0]).toEqual({ script: 'vietnamese', language: 'vietnamese', count: 2 });
+  });
+});
+
+describe('ScriptDetector', () => {
+  it('applies configured policies', () => {
+    const detector = createScriptDetector({ policies: { 'cjk-symbols': 'commit', latin: 'buffer' } });
+
+    expect(detector.detect('。')?.policy).toBe('commit');
+    expect(detector.detect('ñ')?.policy).toBe('buffer');
+  });
+
+  it('passes configured languages through', () => {
+    const detector = createScriptDetector({ passthroughLanguages: ['thai'] });
+
+    expect(detector.detect('สวัสดี')?.policy).toBe('passthrough');
+    expect(detector.detect('你好')?.policy).toBe('buffer');
+  });
+
+  it('does not detect disabled scripts', () => {
+    const detector = createScriptDetector({ disabled: ['arabic'] });
+
+    expect(detector.detect('مرحبا')).toBeNull();
+  });
+});
@@ -1,100 +1,273 @@
 /**
  * IME Detector
- * Detects whether input is from an IME (Input Method Editor)
- * Supports Vietnamese, Chinese, Japanese, Korean, and other multi-byte characters
- */
-
-/**
- * Unicode ranges for different languages
- */
-const UNICODE_RANGES = {
-  // Vietnamese - Latin Extended Additional + combining diacritics
-  vietnamese: {
-    // Vietnamese specific characters (with diacritics pre-composed)
-    precomposed: /[\u00C0-\u00FF\u0102-\u0103\u0110-\u0111\u0128-\u0129\u0168-\u0169\u01A0-\u01B0\u1EA0-\u1EF9]/,
-    // Combining diacritical marks (used during composition)
-    combining: /[\u0300-\u036F]/,
-  },
-  
-  // Chinese - CJK Unified Ideographs
-  chinese: {
-    main: /[\u4E00-\u9FFF]/,           // CJK Unified Ideographs
-    extA: /[\u3400-\u4DBF]/,           // CJK Unified Ideographs Extension A
-    extB: /[\u{20000}-\u{2A6DF}]/u,    // CJK Unified Ideographs Extension B
-    compat: /[\uF900-\uFAFF]/,         // CJK Compatibility Ideographs
-    radicals: /[\u2F00-\u2FDF]/,       // Kangxi Radicals
-  },
-  
-  // Japanese
-  japanese: {
-    hiragana: /[\u3040-\u309F]/,       // Hiragana
-    katakana: /[\u30A0-\u30FF]/,       // Katakana
-    katakanaExt: /[\u31F0-\u31FF]/,    // Katakana Phonetic Extensions
-    halfwidth: /[\uFF65-\uFF9F]/,      // Halfwidth Katakana
-  },
-  
-  // Korean
-  korean: {
-    hangul: /[\uAC00-\uD7AF]/,         // Hangul Syllables
-    jamo: /[\u1100-\u11FF]/,           // Hangul Jamo
-    jamoExt: /[\uA960-\uA97F]/,        // Hangul Jamo Extended-A
-    compat: /[\u3130-\u318F]/,         // Hangul Compatibility Jamo
-  },
-  
-  // Thai
-  thai: /[\u0E00-\u0E7F]/,
-  
-  // Arabic
-  arabic: /[\u0600-\u06FF]/,
-  
-  // Devanagari (Hindi, etc.)
-  devanagari: /[\u0900-\u097F]/,
-};
+ * Detects whether input is from an IME (Input Method Editor) by the
+ * Unicode scripts of its characters, and what to do with it
+ * Supports Vietnamese, Chinese, Japanese, Korean, Thai, Arabic and Devanagari
+ */
+
+/**
+ * Language names returned by detectLanguage
+ */
+export const SUPPORTED_LANGUAGES = [
+  'vietnamese',
+  'chinese',
+  'japanese',
+  'korean',
+  'thai',
+  'arabic',
+  'devanagari',
+] as const;
+
+export type Language = typeof SUPPORTED_LANGUAGES[number];
+
+/**
+ * Scripts in the registry: one per language, plus CJK punctuation and
+ * full-width forms, which the Chinese, Japanese and Korean IMEs share, and
+ * accented Latin letters Vietnamese doesn't use
+ */
+export const SCRIPT_NAMES = [...SUPPORTED_LANGUAGES, 'cjk-symbols', 'latin'] as const;
+
+export type ScriptName = typeof SCRIPT_NAMES[number];
+
+/**
+ * What happens to text in a script
+ * - buffer: held in the composition buffer until the IME is done
+ * - passthrough: forwarded at once, like ASCII typing
+ * - commit: committed at once, as a finished composition
+ */
+export type ScriptPolicy = 'buffer' | 'passthrough' | 'commit';
+
+export const SCRIPT_POLICIES: readonly ScriptPolicy[] = ['buffer', 'passthrough', 'commit'];
+
+/**
+ * One script of the registry
+ */
+export interface ScriptDefinition {
+  name: ScriptName;
+
+  /**
+   * Language reported for text in the script
+   */
+  language: Language | null;
+
+  /**
+   * Characters of the script
+   */
+  pattern: RegExp;
+
+  /**
+   * Characters that also count for the script once one of its own was
+   * seen (kanji in Japanese text, CJK punctuation)
+   */
+  shared?: RegExp;
+
+  /**
+   * Policy unless configured otherwise
+   */
+  policy: ScriptPolicy;
+}
+
+/**
+ * CJK symbols and punctuation (U+3000–303F) and half-width and full-width
+ * forms (U+FF00–FFEF), without the ideographs, kana and jamo among them
+ */
+const CJK_SYMBOLS = /(?![\p{Script=Han}\p{Script=Katakana}\p{Script=Hangul}])[\u3000-\u303F\uFF00-\uFFEF]/u;
+
+/**
+ * Latin letters outside ASCII (ñ, ß, ø, precomposed Vietnamese letters)
+ * and combining diacritics; full-width Latin is a CJK form
+ */
+const LATIN_DIACRITICS = /(?![\x00-\x7F\uFF00-\uFFEF])\p{Script=Latin}|[\u0300-\u036F]/u;
+
+/**
+ * Letters and marks of the Vietnamese alphabet: the Latin-1 vowels it uses
+ * (à á â ã è é ê ì í ò ó ô õ ù ú ý), ă, đ, ĩ, ũ, ơ, ư, the letters with a
+ * dot below or hook above (U+1EA0-1EF9), and the combining tone, breve,
+ * horn, hook and dot marks of decomposed text
+ */
+const VIETNAMESE = /[\u00C0-\u00C3\u00C8-\u00CA\u00CC\u00CD\u00D2-\u00D5\u00D9\u00DA\u00DD\u00E0-\u00E3\u00E8-\u00EA\u00EC\u00ED\u00F2-\u00F5\u00F9\u00FA\u00FD\u0102\u0103\u0110\u0111\u0128\u0129\u0168\u0169\u01A0\u01A1\u01AF\u01B0\u1EA0-\u1EF9\u0300-\u0303\u0306\u0309\u0323\u031B]/u;
+
+const HAN = /\p{Script=Han}/u;
+
+/**
+ * Japanese kana, with the prolonged sound and voicing marks the Unicode
+ * data lists as common to both
+ */
+const KANA = /[\p{Script=Hiragana}\p{Script=Katakana}\u30FC\uFF70\uFF9E\uFF9F]/u;
+
+/**
+ * The script registry, in order of precedence between equal counts
+ */
+export const SCRIPTS: readonly ScriptDefinition[] = [
+  { name: 'vietnamese', language: 'vietnamese', pattern: VIETNAMESE, shared: LATIN_DIACRITICS, policy: 'buffer' },
+  { name: 'japanese', language: 'japanese', pattern: KANA, shared: union(HAN, CJK_SYMBOLS), policy: 'buffer' },
+  { name: 'korean', language: 'korean', pattern: /\p{Script=Hangul}/u, shared: union(HAN, CJK_SYMBOLS), policy: 'buffer' },
+  { name: 'chinese', language: 'chinese', pattern: /[\p{Script=Han}\p{Script=Bopomofo}]/u, shared: CJK_SYMBOLS, policy: 'buffer' },
+  { name: 'thai', language: 'thai', pattern: /\p{Script=Thai}/u, policy: 'buffer' },
+  { name: 'arabic', language: 'arabic', pattern: /\p{Script=Arabic}/u, policy: 'buffer' },
+  { name: 'devanagari', language: 'devanagari', pattern: /\p{Script=Devanagari}/u, policy: 'buffer' },
+  { name: 'cjk-symbols', language: null, pattern: CJK_SYMBOLS, policy: 'buffer' },
+  { name: 'latin', language: null, pattern: LATIN_DIACRITICS, policy: 'passthrough' },
+];
+
+/**
+ * How much of the input is in one script
+ */
+export interface ScriptMatch {
+  script: ScriptName;
+  language: Language | null;
+
+  /**
+   * Characters counted for the script, shared ones included
+   */
+  count: number;
+}
+
+/**
+ * Result of detecting the input's script
+ */
+export interface ScriptDetection {
+  /**
+   * Script with the most characters, and its language and policy
+   */
+  script: ScriptName;
+  language: Language | null;
+  policy: ScriptPolicy;
+
+  /**
+   * Every script found, most characters first
+   */
+  ranking: ScriptMatch[];
+}
+
+export interface ScriptDetectorOptions {
+  /**
+   * Policy per script, over the registry's
+   */
+  policies?: Partial<Record<ScriptName, ScriptPolicy>>;
+
+  /**
+   * Scripts not detected at all; their text is treated like ASCII
+   */
+  disabled?: ScriptName[];
+
+  /**
+   * Languages forwarded without buffering (passthroughLanguages)
+   */
+  passthroughLanguages?: Language[];
+}
+
+export class ScriptDetector {
+  private scripts: ScriptDefinition[];
+
+  constructor(options: ScriptDetectorOptions = {}) {
+    this.scripts = SCRIPTS
+      .filter((script) => !options.disabled?.includes(script.name))
+      .map((script) => {
+        const passthrough = script.language !== null && options.passthroughLanguages?.includes(script.language);
+        return {
+          ...script,
+          policy: options.policies?.[script.name] ?? (passthrough ? 'passthrough' : script.policy),
+        };
+      });
+  }
+
+  /**
+   * Scripts in the input, most characters first
+   */
+  public rank(input: string): ScriptMatch[] {
+    const matches: ScriptMatch[] = [];
+
+    for (const script of this.scripts) {
+      let own = 0;
+      let shared = 0;
+      for (const char of input) {
+        if (script.pattern.test(char)) {
+          own++;
+        } else if (script.shared?.test(char)) {
+          shared++;
+        }
+      }
+      if (own > 0) {
+        matches.push({ script: script.name, language: script.language, count: own + shared });
+      }
+    }
+
+    // Stable, so equal counts keep registry order
+    return matches.sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * Detect the input's script, or null if it has none of the registry's
+   * (ASCII, emoji, disabled scripts)
+   */
+  public detect(input: string): ScriptDetection | null {
+    const ranking = this.rank(input);
+    if (ranking.length === 0) {
+      return null;
+    }
+
+    const top = ranking[0];
+    return {
+      script: top.script,
+      language: top.language,
+      policy: this.policyFor(top.script),
+      ranking,
+    };
+  }
+
+  /**
+   * Policy for a script
+   */
+  public policyFor(script: ScriptName): ScriptPolicy {
+    return this.scripts.find((definition) => definition.name === script)?.policy ?? 'passthrough';
+  }
+}
+
+/**
+ * Factory function for creating a script detector
+ */
+export function createScriptDetector(options?: ScriptDetectorOptions): ScriptDetector {
+  return new ScriptDetector(options);
+}
+
+const defaultDetector = createScriptDetector();
+
+function union(...patterns: RegExp[]): RegExp {
+  return new RegExp(patterns.map((pattern) => pattern.source).join('|'), 'u');
+}
+
+function hasScript(str: string, name: ScriptName): boolean {
+  const script = SCRIPTS.find((definition) => definition.name === name)!;
+  return script.pattern.test(str);
+}
 
 /**
  * Check if a string contains Vietnamese characters
  */
 export function isVietnamese(str: string): boolean {
-  return (
-    UNICODE_RANGES.vietnamese.precomposed.test(str) ||
-    UNICODE_RANGES.vietnamese.combining.test(str)
-  );
+  return hasScript(str, 'vietnamese');
 }
 
 /**
  * Check if a string contains Chinese characters
  */
 export function isChinese(str: string): boolean {
-  return (
-    UNICODE_RANGES.chinese.main.test(str) ||
-    UNICODE_RANGES.chinese.extA.test(str) ||
-    UNICODE_RANGES.chinese.compat.test(str) ||
-    UNICODE_RANGES.chinese.radicals.test(str)
-  );
+  return hasScript(str, 'chinese');
 }
 
 /**
  * Check if a string contains Japanese characters
  */
 export function isJapanese(str: string): boolean {
-  return (
-    UNICODE_RANGES.japanese.hiragana.test(str) ||
-    UNICODE_RANGES.japanese.katakana.test(str) ||
-    UNICODE_RANGES.japanese.katakanaExt.test(str) ||
-    UNICODE_RANGES.japanese.halfwidth.test(str)
-  );
+  return hasScript(str, 'japanese');
 }
 
 /**
  * Check if a string contains Korean characters
  */
 export function isKorean(str: string): boolean {
-  return (
-    UNICODE_RANGES.korean.hangul.test(str) ||
-    UNICODE_RANGES.korean.jamo.test(str) ||
-    UNICODE_RANGES.korean.jamoExt.test(str) ||
-    UNICODE_RANGES.korean.compat.test(str)
-  );
+  return hasScript(str, 'korean');
 }
 
 /**
@@ -115,58 +288,32 @@ export function isMultiByte(str: string): boolean {
  * Check if a string contains combining diacritical marks
  */
 export function hasCombiningMarks(str: string): boolean {
-  return UNICODE_RANGES.vietnamese.combining.test(str);
+  return /[\u0300-\u036F]/.test(str);
 }
 
 /**
  * Main IME detection function
- * Returns true if the input appears to be from an IME
+ * Returns true if the input's script is buffered by default; other
+ * multi-byte text (emoji, symbols, letters such as ñ or ß) is not IME
+ * input
  */
 export function isIMEInput(input: string): boolean {
-  // Empty or single ASCII character - not IME
-  if (!input || (input.length === 1 && input.charCodeAt(0) < 128)) {
-    return false;
-  }
-  
-  // Check for multi-byte characters
-  if (isMultiByte(input)) {
-    return true;
-  }
-  
-  // Check for combining marks (Vietnamese, etc.)
-  if (hasCombiningMarks(input)) {
-    return true;
-  }
-  
-  // Check for specific language ranges
-  if (isVietnamese(input) || isCJK(input)) {
-    return true;
-  }
-  
-  // Check for Thai, Arabic, Devanagari
-  if (
-    UNICODE_RANGES.thai.test(input) ||
-    UNICODE_RANGES.arabic.test(input) ||
-    UNICODE_RANGES.devanagari.test(input)
-  ) {
-    return true;
-  }
-  
-  return false;
+  return defaultDetector.detect(input)?.policy === 'buffer';
+}
+
+/**
+ * Scripts in the input, most characters first
+ */
+export function rankScripts(input: string): ScriptMatch[] {
+  return defaultDetector.rank(input);
 }
 
 /**
- * Detect the language/script of the input
+ * Detect the language/script of the input: the language with the most
+ * characters, so "日本語です" is Japanese although it starts with kanji
  */
-export function detectLanguage(input: string): string | null {
-  if (isVietnamese(input)) return 'vietnamese';
-  if (isChinese(input)) return 'chinese';
-  if (isJapanese(input)) return 'japanese';
-  if (isKorean(input)) return 'korean';
-  if (UNICODE_RANGES.thai.test(input)) return 'thai';
-  if (UNICODE_RANGES.arabic.test(input)) return 'arabic';
-  if (UNICODE_RANGES.devanagari.test(input)) return 'devanagari';
-  return null;
+export function detectLanguage(input: string): Language | null {
+  return rankScripts(input)[0]?.language ?? null;
 }
 
 /**
@@ -176,10 +323,10 @@ export function detectLanguage(input: string): string | null {
 export function isIntermediateComposition(input: string): boolean {
   // Common patterns for intermediate compositions
   // This is heuristic and may need adjustment
-  
+
   // Pinyin patterns (Chinese)
   const pinyinPattern = /^[a-z]{1,6}$/i;
-  
+
   // If it's pure ASCII but in a context where IME might be active,
   // it could be intermediate composition
   if (pinyinPattern.test(input) && input.length > 1) {
@@ -187,6 +334,6 @@ export function isIntermediateComposition(input: string): boolean {
     // For safety, we return false here and rely on timing-based detection
     return false;
   }
-  
+
   return false;
 }
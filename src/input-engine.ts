@@ -0,0 +1,80 @@
+/**
+ * Input Engine
+ * Built-in input methods for machines without an OS IME (SSH sessions,
+ * containers): ASCII keystrokes are composed into words by the proxy
+ */
+
+import type { Language } from './ime-detector';
+import { ToneStyle, VietnameseEngine } from './vietnamese-engine';
+import { HangulEngine } from './hangul-engine';
+
+/**
+ * Built-in input methods
+ * - telex: aa → â, dd → đ, s f r x j → tones
+ * - vni: 6 7 8 9 → marks, 1-5 → tones
+ * - viqr: ^ ( + → marks, ' ` ? ~ . → tones
+ * - hangul: Korean Dubeolsik (2-set) layout
+ */
+export type InputEngineName = 'telex' | 'vni' | 'viqr' | 'hangul';
+
+export const INPUT_ENGINES: readonly InputEngineName[] = ['telex', 'vni', 'viqr', 'hangul'];
+
+/**
+ * Key that switches the engine on and off (Ctrl+^)
+ */
+export const ENGINE_TOGGLE_KEY = '\x1e';
+
+/**
+ * Composes typed characters into the word being written
+ */
+export interface InputEngine {
+  readonly name: InputEngineName;
+  readonly language: Language;
+
+  /**
+   * Feed one typed character
+   * Returns false when it isn't part of a word; the caller commits the
+   * pre-edit and forwards the character itself
+   */
+  process(char: string): boolean;
+
+  /**
+   * Undo the last keystroke of the word
+   * Returns false when there is no word to edit
+   */
+  backspace(): boolean;
+
+  /**
+   * Text finished by the last keystroke, which the caller commits
+   * before showing the new pre-edit
+   */
+  takeCommit(): string;
+
+  /**
+   * Text of the word being composed
+   */
+  getPreedit(): string;
+
+  /**
+   * Forget the word being composed
+   */
+  reset(): void;
+}
+
+export interface InputEngineOptions {
+  /**
+   * Vietnamese tone placement: old (hòa, thúy) or new (hoà, thuý)
+   * Default: old
+   */
+  toneStyle?: ToneStyle;
+}
+
+/**
+ * Factory function for creating an input engine
+ */
+export function createInputEngine(name: InputEngineName, options: InputEngineOptions = {}): InputEngine {
+  if (name === 'hangul') {
+    return new HangulEngine();
+  }
+  return new VietnameseEngine(name, options.toneStyle);
+}
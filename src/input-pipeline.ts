@@ -0,0 +1,887 @@
+/**
+ * Input Pipeline
+ * Everything between raw stdin bytes and what is written to the app:
+ * UTF-8 decoding, bracketed paste, tokenizing, IME edits and composition
+ */
+
+import { Language, ScriptDetector, ScriptPolicy, createScriptDetector } from './ime-detector';
+import { CompositionBuffer, FlushReason, createCompositionBuffer } from './composition-buffer';
+import { getDefaultStateFile } from './adaptive-timeout';
+import { EditCoalescer, createEditCoalescer } from './edit-coalescer';
+import { BracketedPaste, createBracketedPaste } from './bracketed-paste';
+import { InputToken, InputTokenizer, createInputTokenizer } from './input-tokenizer';
+import { Utf8Decoder, createUtf8Decoder } from './utf8-decoder';
+import { NormalizationMode, Normalizer, createNormalizer } from './normalizer';
+import { ENGINE_TOGGLE_KEY, InputEngine, InputEngineName, createInputEngine } from './input-engine';
+import { ControlMenu, ControlMenuAction, ControlMenuStatus, DEFAULT_PREFIX_KEY, createControlMenu, parseKey } from './control-menu';
+import { KeyProtocol, KeyboardMode, createKeyProtocol, isPassiveKeyEvent } from './key-protocol';
+import { FOCUS_IN, FOCUS_OUT, parseMouseReport } from './terminal-reports';
+import { createCommitStrategy } from './commit-strategy';
+import { MiddlewareChain, MiddlewareContext, createMiddlewareChain, loadMiddlewares } from './middleware';
+import type { RuntimeOptionKey, TerminalIMEProxyOptions } from './terminal-ime-proxy';
+
+/**
+ * Why text was written to the app
+ * - regular: non-IME input passed straight through
+ * - flush: composition buffer committed
+ * - edit: backspace-and-replace edit
+ * - backspace: plain backspace not absorbed by the buffer
+ * - paste: bracketed paste payload
+ * - key: Enter, Ctrl+C/D or an escape sequence
+ */
+export type WriteReason = 'regular' | 'flush' | 'edit' | 'backspace' | 'paste' | 'key';
+
+/**
+ * Pipeline settings are the proxy's input options
+ */
+export type InputPipelineSettings = Omit<
+  TerminalIMEProxyOptions,
+  'command' | 'args' | 'cwd' | 'env' | 'cols' | 'rows' | RuntimeOptionKey
+>;
+
+export interface InputPipelineOptions extends InputPipelineSettings {
+  /**
+   * Callback with text to write to the app
+   */
+  onWrite: (text: string, reason: WriteReason) => void;
+
+  /**
+   * Optional callback when the text held in composition changes
+   */
+  onPreedit?: (text: string, language: string | null) => void;
+
+  /**
+   * Optional callback when a composition is committed, before it is written
+   */
+  onCommit?: (text: string, language: string | null, reason: FlushReason) => void;
+
+  /**
+   * Optional callback with what typed text was classified as: buffered for
+   * composition or passed through
+   */
+  onDetect?: (text: string, language: Language | null, decision: ScriptPolicy) => void;
+
+  /**
+   * Optional callback when backspaces are applied to the composition
+   * instead of sent to the app
+   */
+  onAbsorbedBackspaces?: (count: number) => void;
+
+  /**
+   * Optional callback when Ctrl+Z is pressed; without it Ctrl+Z is sent
+   * to the app
+   */
+  onSuspend?: () => void;
+
+  /**
+   * Optional callback with the control menu line to draw; empty when it closes
+   */
+  onMenu?: (text: string) => void;
+
+  /**
+   * Optional callback when debug tracing is switched on or off while running
+   */
+  onDebugChange?: (enabled: boolean) => void;
+
+  /**
+   * Whether the app enabled bracketed paste (re-wrap pasted text)
+   */
+  isBracketedPasteEnabled?: () => boolean;
+
+  /**
+   * Whether the app enabled focus reports; others are dropped
+   */
+  isFocusReportingEnabled?: () => boolean;
+
+  /**
+   * Whether the app enabled mouse reports; others are dropped
+   */
+  isMouseReportingEnabled?: () => boolean;
+
+  /**
+   * Keyboard reporting the app requested (kitty protocol, modifyOtherKeys)
+   */
+  getKeyboardMode?: () => KeyboardMode;
+
+  /**
+   * Optional callback for debug logging
+   */
+  onDebug?: (message: string) => void;
+}
+
+/**
+ * Time in ms the last letter of committed IME text is held while
+ * normalizing, for combining marks typed after it
+ */
+const LETTER_HOLD_TIME = 25;
+
+export class InputPipeline {
+  private compositionBuffer: CompositionBuffer;
+  private scriptDetector: ScriptDetector;
+  private editCoalescer: EditCoalescer;
+  private bracketedPaste: BracketedPaste;
+  private inputTokenizer: InputTokenizer;
+  private utf8Decoder: Utf8Decoder;
+  private normalizer: Normalizer;
+  private middleware: MiddlewareChain;
+  private keyProtocol: KeyProtocol;
+  private engine: InputEngine | null;
+  private engineEnabled = true;
+  private controlMenu: ControlMenu | null = null;
+  private prefixKey: string;
+  private bufferingEnabled = true;
+  private debugEnabled: boolean;
+  private options: InputPipelineOptions;
+  private isDestroyed = false;
+
+  /**
+   * Last letter of normalized text not yet written, and why it was sent
+   */
+  private held: { text: string; reason: WriteReason } | null = null;
+  private holdTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: InputPipelineOptions) {
+    this.options = options;
+    this.debugEnabled = options.debug ?? false;
+    const onDebug = options.onDebug;
+
+    // Tell IME text from the rest, by Unicode script
+    this.scriptDetector = createScriptDetector({
+      policies: options.scripts,
+      disabled: options.disabledScripts,
+      passthroughLanguages: options.passthroughLanguages,
+    });
+
+    // Create composition buffer
+    this.compositionBuffer = createCompositionBuffer({
+      compositionTimeout: options.compositionTimeout ?? 50,
+      adaptive: options.adaptiveTimeout ? {
+        percentile: options.adaptivePercentile,
+        min: options.adaptiveMinTimeout,
+        max: options.adaptiveMaxTimeout,
+        stateFile: options.adaptivePersist
+          ? options.adaptiveStateFile ?? getDefaultStateFile()
+          : undefined,
+      } : false,
+      commitStrategy: createCommitStrategy(options.commitStrategy),
+      onFlush: (text, reason, language) => {
+        this.engine?.reset();
+        this.commit(text, language, reason);
+      },
+      onRegularInput: (text) => this.send(text, 'regular'),
+      onChange: options.onPreedit,
+      onDebug,
+    });
+
+    // Create edit coalescer for IME backspace-and-replace edits
+    this.editCoalescer = createEditCoalescer({
+      editWindow: options.editWindow,
+      onEdit: (deletes, insert) => this.applyEdit(deletes, insert),
+      onDebug,
+    });
+
+    // Decode stdin, keeping characters split across reads intact
+    this.utf8Decoder = createUtf8Decoder({
+      invalidBytes: options.invalidBytes,
+      onDebug,
+    });
+
+    // Create bracketed paste detector
+    this.bracketedPaste = createBracketedPaste({
+      pasteMode: options.pasteMode,
+      pasteTimeout: options.pasteTimeout,
+      onPaste: (text) => this.handlePaste(text),
+      onInput: (text) => this.inputTokenizer.process(text),
+      onDebug,
+    });
+
+    // Normalize committed and regular text
+    this.normalizer = createNormalizer(options.normalization);
+
+    // Rewrite, drop or delay writes before they reach the app
+    this.middleware = createMiddlewareChain({
+      middlewares: loadMiddlewares(options.middleware ?? [], { snippets: options.snippets }),
+      onOutput: (text, context) => this.write(text, context.reason),
+      onDebug,
+    });
+
+    // Built-in input method for machines without an OS IME
+    this.engine = options.engine
+      ? createInputEngine(options.engine, { toneStyle: options.toneStyle })
+      : null;
+
+    // Prefix key that opens the control menu
+    this.prefixKey = parseKey(options.prefixKey ?? DEFAULT_PREFIX_KEY) ?? '';
+    if (this.prefixKey) {
+      this.controlMenu = createControlMenu({
+        prefixKey: this.prefixKey,
+        getStatus: () => this.getStatus(),
+        onAction: (action) => this.handleMenuAction(action),
+        onRender: (text) => this.options.onMenu?.(text),
+        onDebug,
+      });
+    }
+
+    // Key events reported as escape sequences, in and out
+    this.keyProtocol = createKeyProtocol({
+      getMode: options.getKeyboardMode ?? (() => ({ kittyFlags: 0, modifyOtherKeys: 0 })),
+      onDebug,
+    });
+
+    // Split typed input into text, control and escape sequence tokens
+    this.inputTokenizer = createInputTokenizer({
+      escapeTimeout: options.escapeTimeout,
+      onTokens: (tokens) => this.handleTokens(tokens),
+      onDebug,
+    });
+  }
+
+  /**
+   * Process a raw stdin chunk
+   */
+  public process(data: Buffer): void {
+    if (this.isDestroyed) return;
+
+    const input = this.utf8Decoder.write(data);
+    if (!input) return;
+
+    // Separate pasted text from typed input
+    this.bracketedPaste.process(input);
+  }
+
+  /**
+   * Commit any pending composition now
+   */
+  public flush(reason: FlushReason = 'manual'): void {
+    this.editCoalescer.release();
+    this.compositionBuffer.flush(reason);
+    this.engine?.reset();
+  }
+
+  /**
+   * Commit text from outside the keyboard, after any pending composition
+   */
+  public insert(text: string): void {
+    this.flush();
+    this.commit(text, this.scriptDetector.detect(text)?.language ?? null, 'external');
+  }
+
+  /**
+   * Drop any pending composition without sending it
+   */
+  public clear(): void {
+    this.compositionBuffer.clear();
+    this.engine?.reset();
+  }
+
+  /**
+   * Turn IME buffering on or off; off forwards IME text immediately
+   */
+  public setBuffering(enabled: boolean): void {
+    if (!enabled) {
+      this.flush();
+    }
+    this.bufferingEnabled = enabled;
+    this.debug(`Buffering: ${enabled ? 'on' : 'off'}`);
+  }
+
+  /**
+   * Change the composition timeout
+   */
+  public setCompositionTimeout(timeout: number): void {
+    this.compositionBuffer.setCompositionTimeout(timeout);
+  }
+
+  /**
+   * Get the text held in the composition buffer
+   */
+  public getBuffer(): string {
+    return this.compositionBuffer.getBuffer();
+  }
+
+  /**
+   * Get the language of the text held in the composition buffer
+   */
+  public getLanguage(): string | null {
+    return this.compositionBuffer.getLanguage();
+  }
+
+  /**
+   * Check if a composition is in progress
+   */
+  public isComposing(): boolean {
+    return this.compositionBuffer.isComposing();
+  }
+
+  /**
+   * Check if the built-in input engine is on
+   */
+  public isEngineEnabled(): boolean {
+    return this.engine !== null && this.engineEnabled;
+  }
+
+  /**
+   * Switch the built-in input engine on or off, committing its word
+   */
+  public setEngineEnabled(enabled: boolean): void {
+    if (!this.engine) return;
+
+    this.flush();
+    this.engineEnabled = enabled;
+    this.debug(`Input engine ${this.engine.name}: ${enabled ? 'on' : 'off'}`);
+  }
+
+  /**
+   * Switch to another built-in input engine, or none
+   */
+  public setEngine(name: InputEngineName | null): void {
+    this.flush();
+    this.engine = name ? createInputEngine(name, { toneStyle: this.options.toneStyle }) : null;
+    this.engineEnabled = true;
+    this.debug(`Input engine: ${name ?? 'none'}`);
+  }
+
+  /**
+   * Change the normalization mode
+   */
+  public setNormalization(mode: NormalizationMode): void {
+    this.debug(`Normalization: ${mode}`);
+    this.normalizer.setMode(mode);
+  }
+
+  /**
+   * Turn debug tracing on or off
+   */
+  public setDebug(enabled: boolean): void {
+    this.debugEnabled = enabled;
+    this.options.onDebugChange?.(enabled);
+  }
+
+  /**
+   * Current settings, as shown in the control menu
+   */
+  public getStatus(): ControlMenuStatus {
+    return {
+      buffering: this.bufferingEnabled,
+      timeout: this.compositionBuffer.getTimeout(),
+      engine: this.isEngineEnabled() ? this.engine!.name : null,
+      normalization: this.normalizer.getMode(),
+      debug: this.debugEnabled,
+    };
+  }
+
+  /**
+   * Cleanup resources
+   */
+  public destroy(): void {
+    if (this.isDestroyed) return;
+
+    // Bytes of a character cut off by the end of input can't be completed
+    const rest = this.utf8Decoder.end();
+    if (rest) {
+      this.bracketedPaste.process(rest);
+    }
+
+    this.controlMenu?.close();
+    this.compositionBuffer.destroy();
+    this.editCoalescer.destroy();
+    this.bracketedPaste.destroy();
+    this.inputTokenizer.destroy();
+    this.releaseHeld();
+    this.isDestroyed = true;
+  }
+
+  /**
+   * Route the tokens of one input chunk, in order
+   */
+  private handleTokens(tokens: InputToken[]): void {
+    tokens = this.keyProtocol.decode(tokens);
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      // Keys go to the control menu while it is open
+      if (this.controlMenu?.isOpen()) {
+        this.handleMenuKeys(token);
+        continue;
+      }
+
+      // Backspace runs plus the text that follows form one edit
+      if (isBackspace(token)) {
+        let input = '';
+        while (i < tokens.length && isBackspace(tokens[i])) {
+          input += tokens[i++].value;
+        }
+        if (i < tokens.length && tokens[i].type === 'text') {
+          input += tokens[i].value;
+        } else {
+          i--;
+        }
+        this.editCoalescer.process(input);
+        continue;
+      }
+
+      if (token.type === 'text') {
+        this.handleText(token.value);
+        continue;
+      }
+
+      this.editCoalescer.release();
+
+      // Handle special keys
+      if (this.handleSpecialKeys(token)) {
+        continue;
+      }
+
+      // Other control bytes (Tab, Ctrl+A, ...) end the composition
+      this.compositionBuffer.process(token.value, false);
+    }
+  }
+
+  /**
+   * Feed a token to the open control menu; text left after it closes
+   * is typed as usual
+   */
+  private handleMenuKeys(token: InputToken): void {
+    if (token.type !== 'text') {
+      this.controlMenu!.handleKey(token.value);
+      return;
+    }
+
+    const chars = [...token.value];
+    while (chars.length > 0 && this.controlMenu!.isOpen()) {
+      this.controlMenu!.handleKey(chars.shift()!);
+    }
+    if (chars.length > 0) {
+      this.handleText(chars.join(''));
+    }
+  }
+
+  /**
+   * Apply a choice from the control menu
+   */
+  private handleMenuAction(action: ControlMenuAction): void {
+    switch (action.type) {
+      case 'buffering':
+        this.setBuffering(action.enabled);
+        break;
+      case 'timeout':
+        this.setCompositionTimeout(action.timeout);
+        break;
+      case 'engine':
+        this.setEngine(action.engine);
+        break;
+      case 'normalization':
+        this.setNormalization(action.mode);
+        break;
+      case 'debug':
+        this.setDebug(action.enabled);
+        break;
+      case 'flush':
+        this.flush();
+        break;
+      case 'clear':
+        this.clear();
+        break;
+      case 'send-prefix':
+        this.flush();
+        this.send(this.prefixKey, 'key');
+        break;
+    }
+  }
+
+  /**
+   * Handle a run of printable text
+   */
+  private handleText(input: string): void {
+    // Replacement text for held backspaces
+    if (this.editCoalescer.process(input)) {
+      return;
+    }
+
+    if (this.isEngineEnabled()) {
+      this.handleEngineText(input);
+    } else {
+      this.handleTypedText(input);
+    }
+  }
+
+  /**
+   * Compose keystrokes into words with the built-in input engine
+   */
+  private handleEngineText(input: string): void {
+    const engine = this.engine!;
+    let other = '';
+
+    for (const char of input) {
+      if (engine.process(char)) {
+        if (other) {
+          this.handleTypedText(other);
+          other = '';
+        }
+
+        // A finished syllable goes out ahead of the new pre-edit
+        const committed = engine.takeCommit();
+        if (committed) {
+          this.commit(committed, engine.language, 'regular-input');
+        }
+        this.compositionBuffer.compose(engine.getPreedit(), engine.language);
+        continue;
+      }
+
+      // Anything that isn't part of a word commits it
+      if (engine.getPreedit()) {
+        this.compositionBuffer.flush('regular-input');
+      }
+      other += char;
+    }
+
+    if (other) {
+      this.handleTypedText(other);
+    }
+  }
+
+  /**
+   * Buffer IME text, pass everything else through, as its script's policy
+   * says
+   */
+  private handleTypedText(input: string): void {
+    const detection = this.scriptDetector.detect(input);
+    const lang = detection?.language ?? null;
+    let policy: ScriptPolicy = detection?.policy ?? 'passthrough';
+
+    if (detection) {
+      this.debug(`Detected IME input (${detection.script}, ${policy})`);
+
+      if (!this.bufferingEnabled) {
+        policy = 'passthrough';
+      }
+    }
+
+    this.options.onDetect?.(input, lang, policy);
+
+    if (policy === 'commit') {
+      this.compositionBuffer.flush('regular-input');
+      this.commit(input, lang, 'immediate');
+      return;
+    }
+
+    // Process through composition buffer
+    this.compositionBuffer.process(input, policy === 'buffer', lang);
+  }
+
+  /**
+   * Forward pasted text as one unit, bypassing composition
+   */
+  private handlePaste(text: string): void {
+    this.editCoalescer.release();
+    this.compositionBuffer.flush('regular-input');
+
+    if (this.options.isBracketedPasteEnabled?.()) {
+      this.send(BracketedPaste.wrap(text), 'paste');
+    } else {
+      this.send(text, 'paste');
+    }
+  }
+
+  /**
+   * Handle special keys (Ctrl+C, Enter, escape sequences, etc.)
+   */
+  private handleSpecialKeys(token: InputToken): boolean {
+    // The prefix key opens the control menu instead of reaching the app
+    if (token.value === this.prefixKey && this.controlMenu) {
+      this.editCoalescer.release();
+      this.controlMenu.show();
+      return true;
+    }
+
+    // Ctrl+^ switches the built-in input engine
+    if (token.value === ENGINE_TOGGLE_KEY && this.engine) {
+      this.setEngineEnabled(!this.engineEnabled);
+      return true;
+    }
+
+    // Ctrl+C (ETX)
+    if (token.value === '\x03') {
+      this.debug('Ctrl+C detected');
+      // Flush any pending composition
+      this.compositionBuffer.flush('regular-input');
+      // Forward to app
+      this.send(token.raw ?? token.value, 'key');
+      return true;
+    }
+
+    // Ctrl+Z (SUB) suspends the proxy along with the app
+    if (token.value === '\x1a' && this.options.onSuspend) {
+      this.debug('Ctrl+Z detected');
+      this.editCoalescer.release();
+      this.compositionBuffer.flush('suspend');
+      this.options.onSuspend();
+      return true;
+    }
+
+    // Ctrl+D (EOT)
+    if (token.value === '\x04') {
+      this.debug('Ctrl+D detected');
+      this.compositionBuffer.flush('regular-input');
+      this.send(token.raw ?? token.value, 'key');
+      return true;
+    }
+
+    // Enter (CR or LF)
+    if (token.value === '\r' || token.value === '\n') {
+      this.debug('Enter detected');
+      // Flush composition before sending enter
+      this.compositionBuffer.flush('enter');
+      this.send(token.raw ?? token.value, 'key');
+      return true;
+    }
+
+    // Focus and mouse reports follow their own rules
+    if (token.type === 'csi' && this.handleReport(token.value)) {
+      return true;
+    }
+
+    // Modifier keys and key releases don't end the composition
+    if (isPassiveKeyEvent(token.value)) {
+      this.send(token.value, 'key');
+      return true;
+    }
+
+    // Escape sequences (arrow keys, function keys, etc.)
+    if (token.type !== 'control') {
+      this.debug(`Escape sequence (${token.type}): ${toHex(token.value)}`);
+      // Flush composition and forward escape sequence
+      this.compositionBuffer.flush('escape');
+      this.send(token.raw ?? token.value, 'key');
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Handle a focus or mouse report
+   * Focus-out commits or discards the composition (focusOut option), a
+   * mouse press commits it; motion, wheel and releases leave it alone
+   */
+  private handleReport(sequence: string): boolean {
+    if (sequence === FOCUS_IN || sequence === FOCUS_OUT) {
+      if (sequence === FOCUS_OUT) {
+        this.editCoalescer.release();
+        if (this.options.focusOut === 'discard') {
+          this.debug('Focus lost, discarding composition');
+          this.clear();
+        } else {
+          this.compositionBuffer.flush('focus-out');
+        }
+      }
+      this.forwardReport(sequence, this.options.isFocusReportingEnabled);
+      return true;
+    }
+
+    const mouse = parseMouseReport(sequence);
+    if (!mouse) {
+      return false;
+    }
+
+    if (mouse.kind === 'press') {
+      this.editCoalescer.release();
+      this.compositionBuffer.flush('mouse');
+    }
+    this.forwardReport(sequence, this.options.isMouseReportingEnabled);
+    return true;
+  }
+
+  /**
+   * Send a report on if the app asked for it
+   */
+  private forwardReport(sequence: string, isEnabled?: () => boolean): void {
+    if (isEnabled && !isEnabled()) {
+      this.debug(`Dropped report the app didn't enable: ${toHex(sequence)}`);
+      return;
+    }
+    this.send(sequence, 'key');
+  }
+
+  /**
+   * Apply backspaces and replacement text as one atomic edit
+   */
+  private applyEdit(deletes: number, insert: string): void {
+    if (this.isEngineEnabled()) {
+      this.applyEngineEdit(deletes, insert);
+      return;
+    }
+
+    this.applyNetEdit(deletes, insert);
+  }
+
+  /**
+   * Backspaces undo the engine's keystrokes before reaching the app
+   */
+  private applyEngineEdit(deletes: number, insert: string): void {
+    const engine = this.engine!;
+    let undone = 0;
+
+    while (undone < deletes && engine.backspace()) {
+      undone++;
+    }
+    if (undone > 0) {
+      this.options.onAbsorbedBackspaces?.(undone);
+      this.compositionBuffer.compose(engine.getPreedit(), engine.language);
+    }
+
+    if (deletes > undone) {
+      this.applyNetEdit(deletes - undone, '');
+    }
+    if (insert) {
+      this.handleEngineText(insert);
+    }
+  }
+
+  /**
+   * Apply backspaces and replacement text against the buffer and the app
+   */
+  private applyNetEdit(deletes: number, insert: string): void {
+    // A held letter hasn't reached the app either
+    const pending = (this.held?.text ?? '') + this.compositionBuffer.getBuffer();
+
+    // Plain backspaces inside the composition stay in the buffer
+    if (!insert && deletes <= this.compositionBuffer.getLength()) {
+      for (let i = 0; i < deletes; i++) {
+        this.compositionBuffer.backspace();
+      }
+      this.options.onAbsorbedBackspaces?.(deletes);
+      return;
+    }
+
+    // Otherwise diff against what the app already has
+    this.takeHeld();
+    this.compositionBuffer.clear();
+    const edit = this.editCoalescer.diff(pending, deletes, this.normalizer.normalize(insert));
+    this.debug(`Net edit: ${edit.deleteCount} delete(s) + "${edit.insert}"`);
+
+    if (edit.deleteCount > 0 || edit.insert) {
+      this.send(this.editCoalescer.encode(edit), insert ? 'edit' : 'backspace');
+    }
+  }
+
+  /**
+   * Write committed text to the app
+   */
+  private commit(text: string, language: string | null, reason: FlushReason): void {
+    this.options.onCommit?.(text, language, reason);
+    this.send(text, 'flush', language);
+  }
+
+  /**
+   * Send text to the app through the middleware chain
+   */
+  private send(text: string, reason: WriteReason, language: string | null = null): void {
+    if (this.isDestroyed) return;
+
+    const source: MiddlewareContext['source'] = reason === 'flush' ? 'commit'
+      : reason === 'regular' ? 'input'
+      : 'other';
+    this.middleware.process(text, { source, reason, language });
+  }
+
+  /**
+   * Write text that passed the middleware chain
+   */
+  private write(text: string, reason: WriteReason): void {
+    // Delayed writes can finish after destroy()
+    if (this.isDestroyed) return;
+
+    if (reason !== 'flush' && reason !== 'regular') {
+      this.releaseHeld();
+      this.output(text, reason);
+      return;
+    }
+
+    // A held letter is normalized again with marks that follow it
+    const normalized = this.normalizer.apply(this.takeHeld() + text);
+
+    // Only committed IME text can be followed by marks for its last
+    // letter; plain typing is written at once
+    if (reason === 'regular') {
+      this.output(normalized.text + normalized.held, reason);
+      return;
+    }
+
+    if (normalized.text) {
+      this.output(normalized.text, reason);
+    }
+    if (normalized.held) {
+      this.held = { text: normalized.held, reason };
+      this.holdTimer = setTimeout(() => this.releaseHeld(), LETTER_HOLD_TIME);
+    }
+  }
+
+  /**
+   * Write the held letter on its own
+   */
+  private releaseHeld(): void {
+    const reason = this.held?.reason;
+    const text = this.takeHeld();
+    if (text && reason) {
+      this.output(text, reason);
+    }
+  }
+
+  /**
+   * Take the held letter, if any, to write or edit it
+   */
+  private takeHeld(): string {
+    if (this.holdTimer) {
+      clearTimeout(this.holdTimer);
+      this.holdTimer = null;
+    }
+    const text = this.held?.text ?? '';
+    this.held = null;
+    return text;
+  }
+
+  /**
+   * Record text as sent and hand it to the app
+   */
+  private output(text: string, reason: WriteReason): void {
+    this.editCoalescer.record(text);
+
+    // Keys and pastes are sent as the terminal reported them
+    if (reason !== 'key' && reason !== 'paste') {
+      text = this.keyProtocol.encode(text);
+    }
+    this.options.onWrite(text, reason);
+  }
+
+  /**
+   * Debug logging helper
+   */
+  private debug(message: string): void {
+    if (this.options.onDebug) {
+      this.options.onDebug(`[InputPipeline] ${message}`);
+    }
+  }
+}
+
+/**
+ * Check if a token is a backspace (DEL or BS)
+ */
+function isBackspace(token: InputToken): boolean {
+  return token.type === 'control' && (token.value === '\x7f' || token.value === '\x08');
+}
+
+/**
+ * Convert string to hex representation for debugging
+ */
+function toHex(str: string): string {
+  return Buffer.from(str, 'utf8').toString('hex').match(/.{1,2}/g)?.join(' ') ?? '';
+}
+
+/**
+ * Factory function for creating an input pipeline
+ */
+export function createInputPipeline(options: InputPipelineOptions): InputPipeline {
+  return new InputPipeline(options);
+}
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { InputToken, InputTokenizer } from './input-tokenizer';
+
+function tokenize(...chunks: string[]): { tokens: InputToken[]; tokenizer: InputTokenizer } {
+  const tokens: InputToken[] = [];
+  const tokenizer = new InputTokenizer({ onTokens: (t) => tokens.push(...t) });
+  for (const chunk of chunks) {
+    tokenizer.process(chunk);
+  }
+  return { tokens, tokenizer };
+}
+
+describe('InputTokenizer', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('splits text, control bytes and escape sequences in one chunk', () => {
+    const { tokens } = tokenize('你好\r\x1b[A\x1bOPx\x7f');
+
+    expect(tokens).toEqual([
+      { type: 'text', value: '你好' },
+      { type: 'control', value: '\r' },
+      { type: 'csi', value: '\x1b[A' },
+      { type: 'ss3', value: '\x1bOP' },
+      { type: 'text', value: 'x' },
+      { type: 'control', value: '\x7f' },
+    ]);
+  });
+
+  it('reads OSC replies ended by BEL or ST', () => {
+    const { tokens } = tokenize('\x1b]11;rgb:0000/0000/0000\x07\x1b]10;?\x1b\\');
+
+    expect(tokens).toEqual([
+      { type: 'osc', value: '\x1b]11;rgb:0000/0000/0000\x07' },
+      { type: 'osc', value: '\x1b]10;?\x1b\\' },
+    ]);
+  });
+
+  it('treats ESC followed by a character as an Alt-modified key', () => {
+    const { tokens } = tokenize('\x1bb');
+
+    expect(tokens).toEqual([{ type: 'escape', value: '\x1bb' }]);
+  });
+
+  it('joins an escape sequence split across chunks', () => {
+    const { tokens } = tokenize('a\x1b[', '1;5', 'C');
+
+    expect(tokens).toEqual([
+      { type: 'text', value: 'a' },
+      { type: 'csi', value: '\x1b[1;5C' },
+    ]);
+  });
+
+  it('releases a lone ESC after the escape timeout', () => {
+    vi.useFakeTimers();
+    const { tokens } = tokenize('\x1b');
+
+    expect(tokens).toEqual([]);
+    vi.advanceTimersByTime(25);
+    expect(tokens).toEqual([{ type: 'escape', value: '\x1b' }]);
+  });
+
+  it('drops the pending timer on destroy', () => {
+    vi.useFakeTimers();
+    const { tokens, tokenizer } = tokenize('\x1b[');
+
+    tokenizer.destroy();
+    vi.advanceTimersByTime(100);
+    expect(tokens).toEqual([]);
+  });
+});
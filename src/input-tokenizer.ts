@@ -0,0 +1,228 @@
+/**
+ * Input Tokenizer
+ * Splits raw stdin chunks into typed tokens so text, control bytes and
+ * escape sequences arriving in the same chunk are handled separately
+ */
+
+/**
+ * Token types
+ * - text: run of printable characters (may contain IME text)
+ * - control: single C0 control byte or DEL
+ * - csi: ESC [ ... final byte (arrow keys, function keys, reports)
+ * - ss3: ESC O + one character (application keypad / cursor keys)
+ * - osc: ESC ] ... BEL or ESC \ (terminal replies)
+ * - escape: lone ESC, or ESC + character (Alt/Meta-modified key)
+ */
+export type InputTokenType = 'text' | 'control' | 'csi' | 'ss3' | 'osc' | 'escape';
+
+export interface InputToken {
+  type: InputTokenType;
+  value: string;
+
+  /**
+   * Sequence the terminal sent, when the token was decoded from a key
+   * event (kitty keyboard protocol or modifyOtherKeys)
+   */
+  raw?: string;
+}
+
+export interface InputTokenizerOptions {
+  /**
+   * Time in ms to wait after a trailing ESC (or an unfinished sequence)
+   * before deciding it was a lone Escape key
+   * Default: 25ms
+   */
+  escapeTimeout?: number;
+
+  /**
+   * Callback with the tokens of one chunk, in order
+   */
+  onTokens: (tokens: InputToken[]) => void;
+
+  /**
+   * Optional callback for debug logging
+   */
+  onDebug?: (message: string) => void;
+}
+
+const ESC = '\x1b';
+const BEL = '\x07';
+
+/**
+ * Result of scanning one escape sequence
+ * `length` is 0 when the sequence is cut off at the end of the input
+ */
+interface SequenceScan {
+  type: InputTokenType;
+  length: number;
+}
+
+export class InputTokenizer {
+  private pending = '';
+  private pendingTimer: NodeJS.Timeout | null = null;
+
+  private options: Required<Omit<InputTokenizerOptions, 'onDebug'>> & { onDebug?: (msg: string) => void };
+  private readonly DEFAULT_ESCAPE_TIMEOUT = 25; // ms
+
+  constructor(options: InputTokenizerOptions) {
+    this.options = {
+      escapeTimeout: options.escapeTimeout ?? this.DEFAULT_ESCAPE_TIMEOUT,
+      onTokens: options.onTokens,
+      onDebug: options.onDebug,
+    };
+  }
+
+  /**
+   * Process incoming input
+   */
+  public process(input: string): void {
+    this.clearTimer();
+    const text = this.pending + input;
+    this.pending = '';
+
+    const tokens: InputToken[] = [];
+    let i = 0;
+
+    while (i < text.length) {
+      const code = text.charCodeAt(i);
+
+      if (text[i] === ESC) {
+        const scan = this.scanEscape(text, i);
+        if (scan.length === 0) {
+          // Unfinished sequence - wait for the rest
+          this.pending = text.slice(i);
+          break;
+        }
+        tokens.push({ type: scan.type, value: text.slice(i, i + scan.length) });
+        i += scan.length;
+      } else if (code < 0x20 || code === 0x7F) {
+        tokens.push({ type: 'control', value: text[i] });
+        i++;
+      } else {
+        let end = i + 1;
+        while (end < text.length && !this.isControl(text.charCodeAt(end))) {
+          end++;
+        }
+        tokens.push({ type: 'text', value: text.slice(i, end) });
+        i = end;
+      }
+    }
+
+    if (tokens.length > 0) {
+      this.debug(`Tokens: ${tokens.map((t) => t.type).join(', ')}`);
+      this.options.onTokens(tokens);
+    }
+
+    if (this.pending) {
+      this.pendingTimer = setTimeout(() => {
+        this.pendingTimer = null;
+        this.release();
+      }, this.options.escapeTimeout);
+    }
+  }
+
+  /**
+   * Emit held bytes without waiting for the rest of the sequence
+   */
+  public release(): void {
+    this.clearTimer();
+    if (!this.pending) return;
+
+    const value = this.pending;
+    this.pending = '';
+    this.debug(value === ESC ? 'Lone ESC' : 'Unfinished escape sequence released');
+    this.options.onTokens([{ type: 'escape', value }]);
+  }
+
+  /**
+   * Cleanup resources
+   */
+  public destroy(): void {
+    this.clearTimer();
+  }
+
+  /**
+   * Scan an escape sequence starting at `start`
+   */
+  private scanEscape(text: string, start: number): SequenceScan {
+    const next = text[start + 1];
+
+    if (next === undefined) {
+      return { type: 'escape', length: 0 };
+    }
+
+    // CSI: parameters 0x30-0x3F, intermediates 0x20-0x2F, final 0x40-0x7E
+    if (next === '[') {
+      // X10 mouse report: CSI M and three raw bytes
+      if (text[start + 2] === 'M') {
+        return { type: 'csi', length: start + 6 <= text.length ? 6 : 0 };
+      }
+
+      for (let i = start + 2; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        if (code >= 0x40 && code <= 0x7E) {
+          return { type: 'csi', length: i - start + 1 };
+        }
+        if (code < 0x20 || code > 0x3F) {
+          // Malformed - treat what we have as the sequence
+          return { type: 'csi', length: i - start };
+        }
+      }
+      return { type: 'csi', length: 0 };
+    }
+
+    // SS3: one character
+    if (next === 'O') {
+      return { type: 'ss3', length: start + 2 < text.length ? 3 : 0 };
+    }
+
+    // OSC: terminated by BEL or ST (ESC \)
+    if (next === ']') {
+      for (let i = start + 2; i < text.length; i++) {
+        if (text[i] === BEL) {
+          return { type: 'osc', length: i - start + 1 };
+        }
+        if (text[i] === ESC && text[i + 1] === '\\') {
+          return { type: 'osc', length: i - start + 2 };
+        }
+      }
+      return { type: 'osc', length: 0 };
+    }
+
+    // ESC ESC - the first one is a lone Escape
+    if (next === ESC) {
+      return { type: 'escape', length: 1 };
+    }
+
+    // Alt/Meta + key (one full code point)
+    const codePoint = text.codePointAt(start + 1) ?? 0;
+    return { type: 'escape', length: 1 + (codePoint > 0xFFFF ? 2 : 1) };
+  }
+
+  private isControl(code: number): boolean {
+    return code < 0x20 || code === 0x7F;
+  }
+
+  private clearTimer(): void {
+    if (this.pendingTimer) {
+      clearTimeout(this.pendingTimer);
+      this.pendingTimer = null;
+    }
+  }
+
+  /**
+   * Debug logging helper
+   */
+  private debug(message: string): void {
+    if (this.options.onDebug) {
+      this.options.onDebug(`[InputTokenizer] ${message}`);
+    }
+  }
+}
+
+/**
+ * Factory function for creating an input tokenizer
+ */
+export function createInputTokenizer(options: InputTokenizerOptions): InputTokenizer {
+  return new InputTokenizer(options);
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { KeyboardMode, KeyProtocol, KITTY_FLAGS, isPassiveKeyEvent, keyEventValue, parseKeyEvent } from './key-protocol';
+
+function createProtocol(mode: KeyboardMode): KeyProtocol {
+  return new KeyProtocol({ getMode: () => mode });
+}
+
+describe('parseKeyEvent', () => {
+  it('parses kitty CSI u reports with modifiers, event type and text', () => {
+    expect(parseKeyEvent('\x1b[97;5:3u')).toEqual({
+      code: 97,
+      shiftedCode: null,
+      modifiers: 4,
+      eventType: 3,
+      text: null,
+    });
+    expect(parseKeyEvent('\x1b[97:65;2;65u')).toEqual({
+      code: 97,
+      shiftedCode: 65,
+      modifiers: 1,
+      eventType: 1,
+      text: 'A',
+    });
+  });
+
+  it('parses modifyOtherKeys reports', () => {
+    expect(parseKeyEvent('\x1b[27;5;99~')).toEqual({
+      code: 99,
+      shiftedCode: null,
+      modifiers: 4,
+      eventType: 1,
+      text: null,
+    });
+  });
+
+  it('ignores other CSI sequences', () => {
+    expect(parseKeyEvent('\x1b[A')).toBeNull();
+    expect(parseKeyEvent('\x1b[1;5C')).toBeNull();
+  });
+});
+
+describe('keyEventValue', () => {
+  it('maps keys to the text or control byte they produce', () => {
+    expect(keyEventValue(parseKeyEvent('\x1b[97u')!)).toBe('a');
+    expect(keyEventValue(parseKeyEvent('\x1b[97;2u')!)).toBe('A');
+    expect(keyEventValue(parseKeyEvent('\x1b[99;5u')!)).toBe('\x03');
+    expect(keyEventValue(parseKeyEvent('\x1b[13u')!)).toBe('\r');
+    expect(keyEventValue(parseKeyEvent('\x1b[97;65u')!)).toBe('A');
+  });
+
+  it('returns null for keys without a plain value', () => {
+    expect(keyEventValue(parseKeyEvent('\x1b[97;3u')!)).toBeNull();
+    expect(keyEventValue(parseKeyEvent('\x1b[57376u')!)).toBeNull();
+    expect(keyEventValue(parseKeyEvent('\x1b[49;2u')!)).toBeNull();
+  });
+});
+
+describe('isPassiveKeyEvent', () => {
+  it('matches releases and lone modifier keys', () => {
+    expect(isPassiveKeyEvent('\x1b[97;1:3u')).toBe(true);
+    expect(isPassiveKeyEvent('\x1b[57441;2u')).toBe(true);
+    expect(isPassiveKeyEvent('\x1b[97u')).toBe(false);
+  });
+});
+
+describe('KeyProtocol', () => {
+  it('decodes key events into text runs and control tokens', () => {
+    const protocol = createProtocol({ kittyFlags: KITTY_FLAGS.disambiguate, modifyOtherKeys: 0 });
+
+    const tokens = protocol.decode([
+      { type: 'csi', value: '\x1b[104u' },
+      { type: 'csi', value: '\x1b[105u' },
+      { type: 'csi', value: '\x1b[13u' },
+      { type: 'csi', value: '\x1b[A' },
+    ]);
+
+    expect(tokens).toEqual([
+      { type: 'text', value: 'hi' },
+      { type: 'control', value: '\r', raw: '\x1b[13u' },
+      { type: 'csi', value: '\x1b[A' },
+    ]);
+  });
+
+  it('drops releases of text keys but keeps releases of control keys', () => {
+    const protocol = createProtocol({ kittyFlags: KITTY_FLAGS.eventTypes, modifyOtherKeys: 0 });
+
+    const tokens = protocol.decode([
+      { type: 'csi', value: '\x1b[97;1:3u' },
+      { type: 'csi', value: '\x1b[13;1:3u' },
+    ]);
+
+    expect(tokens).toEqual([{ type: 'csi', value: '\x1b[13;1:3u' }]);
+  });
+
+  it('encodes typed characters the way the terminal reported them', () => {
+    const protocol = createProtocol({ kittyFlags: KITTY_FLAGS.disambiguate, modifyOtherKeys: 0 });
+
+    protocol.decode([{ type: 'csi', value: '\x1b[97u' }]);
+
+    expect(protocol.encode('aé')).toBe('\x1b[97ué');
+  });
+
+  it('forgets reported sequences when the app changes mode', () => {
+    const mode: KeyboardMode = { kittyFlags: KITTY_FLAGS.disambiguate, modifyOtherKeys: 0 };
+    const protocol = createProtocol(mode);
+
+    protocol.decode([{ type: 'csi', value: '\x1b[97u' }]);
+    mode.modifyOtherKeys = 2;
+
+    expect(protocol.encode('a')).toBe('a');
+  });
+
+  it('encodes every key as an escape when the app asks for all keys', () => {
+    const protocol = createProtocol({
+      kittyFlags: KITTY_FLAGS.disambiguate | KITTY_FLAGS.allKeysAsEscapes | KITTY_FLAGS.associatedText,
+      modifyOtherKeys: 0,
+    });
+
+    expect(protocol.encode('aB\r你')).toBe('\x1b[97;;97u\x1b[98;2;66u\x1b[13u你');
+  });
+
+  it('passes text through when no protocol is active', () => {
+    const protocol = createProtocol({ kittyFlags: 0, modifyOtherKeys: 0 });
+
+    expect(protocol.encode('abc')).toBe('abc');
+  });
+});
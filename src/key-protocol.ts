@@ -0,0 +1,322 @@
+/**
+ * Key Protocol
+ * Decodes keys reported with the kitty keyboard protocol (CSI code;mods u)
+ * or xterm modifyOtherKeys (CSI 27;mods;code ~) back into text and control
+ * bytes, so they can be composed, and encodes what the proxy writes the way
+ * the app asked to receive keys
+ */
+
+import type { InputToken } from './input-tokenizer';
+
+/**
+ * Progressive enhancement flags of the kitty keyboard protocol
+ */
+export const KITTY_FLAGS = {
+  disambiguate: 1,
+  eventTypes: 2,
+  alternateKeys: 4,
+  allKeysAsEscapes: 8,
+  associatedText: 16,
+} as const;
+
+/**
+ * Keyboard reporting the app requested
+ */
+export interface KeyboardMode {
+  /**
+   * Current kitty keyboard protocol flags (0 when off)
+   */
+  kittyFlags: number;
+
+  /**
+   * xterm modifyOtherKeys level (0 when off)
+   */
+  modifyOtherKeys: number;
+}
+
+/**
+ * One decoded key event
+ */
+export interface KeyEvent {
+  code: number;
+  shiftedCode: number | null;
+
+  /**
+   * Modifier bits (shift 1, alt 2, ctrl 4, super 8, hyper 16, meta 32,
+   * caps lock 64, num lock 128)
+   */
+  modifiers: number;
+
+  /**
+   * 1 press, 2 repeat, 3 release
+   */
+  eventType: number;
+
+  /**
+   * Text the key produces, when reported
+   */
+  text: string | null;
+}
+
+const MOD_SHIFT = 1;
+const MOD_CTRL = 4;
+const MOD_CAPS_LOCK = 64;
+const MOD_NUM_LOCK = 128;
+const EVENT_RELEASE = 3;
+
+/**
+ * Modifier keys reported on their own (left/right shift, ctrl, alt, super,
+ * hyper, meta, ISO level 3/5 shift)
+ */
+const MODIFIER_KEYS_START = 57441;
+const MODIFIER_KEYS_END = 57454;
+
+/**
+ * Keys in the Unicode private use area are functional keys (F13, media, ...)
+ */
+const FUNCTIONAL_KEYS_START = 0xe000;
+const FUNCTIONAL_KEYS_END = 0xf8ff;
+
+/**
+ * Keys that decode to a control byte without modifiers
+ */
+const CONTROL_KEYS = new Set([0x09, 0x0d, 0x1b, 0x7f]);
+
+const CSI_U_PATTERN = /^\x1b\[(\d+)(?::(\d*))?(?::\d*)?(?:;(\d*)(?::(\d+))?)?(?:;([\d:]*))?u$/;
+const MODIFY_OTHER_KEYS_PATTERN = /^\x1b\[27;(\d+);(\d+)~$/;
+
+export interface KeyProtocolOptions {
+  /**
+   * Keyboard reporting currently requested by the app
+   */
+  getMode: () => KeyboardMode;
+
+  /**
+   * Optional callback for debug logging
+   */
+  onDebug?: (message: string) => void;
+}
+
+export class KeyProtocol {
+  private options: KeyProtocolOptions;
+
+  /**
+   * How the terminal reported each decoded character, to send it on the
+   * same way; forgotten when the app changes mode
+   */
+  private sequences = new Map<string, string>();
+  private lastMode = '';
+
+  constructor(options: KeyProtocolOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Replace key event tokens with the text or control byte they stand for
+   * Releases of text keys are dropped: the press may be held for
+   * composition and its release must not reach the app before it
+   */
+  public decode(tokens: InputToken[]): InputToken[] {
+    const decoded: InputToken[] = [];
+
+    for (const token of tokens) {
+      const event = token.type === 'csi' ? parseKeyEvent(token.value) : null;
+      const value = event ? keyEventValue(event) : null;
+
+      if (!event || value === null) {
+        decoded.push(token);
+        continue;
+      }
+
+      if (event.eventType === EVENT_RELEASE) {
+        if (isControl(value)) {
+          decoded.push(token);
+        } else {
+          this.debug(`Dropped release of ${JSON.stringify(value)}`);
+        }
+        continue;
+      }
+
+      this.remember(value, token.value);
+
+      if (value === '\x1b') {
+        decoded.push({ type: 'escape', value, raw: token.value });
+      } else if (isControl(value)) {
+        decoded.push({ type: 'control', value, raw: token.value });
+      } else if (decoded[decoded.length - 1]?.type === 'text') {
+        // Adjacent text forms one run, as if typed without the protocol
+        const last = decoded.pop()!;
+        decoded.push({ type: 'text', value: last.value + value });
+      } else {
+        decoded.push({ type: 'text', value });
+      }
+    }
+
+    return decoded;
+  }
+
+  /**
+   * Encode text the proxy writes as the keys the app expects
+   * Characters that weren't typed as key events (IME output) stay text
+   */
+  public encode(text: string): string {
+    const mode = this.options.getMode();
+    this.checkMode(mode);
+
+    if (mode.kittyFlags === 0 && mode.modifyOtherKeys === 0) {
+      return text;
+    }
+
+    let encoded = '';
+    for (const char of text) {
+      const sequence = this.sequences.get(char);
+      if (sequence) {
+        encoded += sequence;
+      } else if (mode.kittyFlags & KITTY_FLAGS.allKeysAsEscapes) {
+        encoded += encodeKittyKey(char, mode.kittyFlags);
+      } else {
+        encoded += char;
+      }
+    }
+    return encoded;
+  }
+
+  private remember(value: string, sequence: string): void {
+    this.checkMode(this.options.getMode());
+    this.sequences.set(value, sequence);
+  }
+
+  private checkMode(mode: KeyboardMode): void {
+    const key = `${mode.kittyFlags}/${mode.modifyOtherKeys}`;
+    if (key !== this.lastMode) {
+      this.lastMode = key;
+      this.sequences.clear();
+    }
+  }
+
+  /**
+   * Debug logging helper
+   */
+  private debug(message: string): void {
+    if (this.options.onDebug) {
+      this.options.onDebug(`[KeyProtocol] ${message}`);
+    }
+  }
+}
+
+/**
+ * Parse a kitty (CSI u) or modifyOtherKeys (CSI 27 ~) key report
+ */
+export function parseKeyEvent(sequence: string): KeyEvent | null {
+  let match = CSI_U_PATTERN.exec(sequence);
+  if (match) {
+    const text = match[5]
+      ? String.fromCodePoint(...match[5].split(':').filter(Boolean).map(Number))
+      : null;
+    return {
+      code: Number(match[1]),
+      shiftedCode: match[2] ? Number(match[2]) : null,
+      modifiers: match[3] ? Number(match[3]) - 1 : 0,
+      eventType: match[4] ? Number(match[4]) : 1,
+      text: text || null,
+    };
+  }
+
+  match = MODIFY_OTHER_KEYS_PATTERN.exec(sequence);
+  if (match) {
+    return {
+      code: Number(match[2]),
+      shiftedCode: null,
+      modifiers: Number(match[1]) - 1,
+      eventType: 1,
+      text: null,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Check if a sequence reports a key release or a lone modifier key, which
+ * the app may want but which don't end a composition
+ */
+export function isPassiveKeyEvent(sequence: string): boolean {
+  const event = parseKeyEvent(sequence);
+  return event !== null
+    && (event.eventType === EVENT_RELEASE || (event.code >= MODIFIER_KEYS_START && event.code <= MODIFIER_KEYS_END));
+}
+
+/**
+ * Text or control byte a key event produces, or null for other keys
+ * (functional keys, Alt/Super combinations, shifted symbols of unknown layout)
+ */
+export function keyEventValue(event: KeyEvent): string | null {
+  const { code } = event;
+  const modifiers = event.modifiers & ~(MOD_CAPS_LOCK | MOD_NUM_LOCK);
+
+  if (code > 0x10ffff || (code >= FUNCTIONAL_KEYS_START && code <= FUNCTIONAL_KEYS_END)) {
+    return null;
+  }
+
+  if (modifiers === MOD_CTRL) {
+    if (code === 0x3f) return '\x7f';
+    const upper = code >= 0x61 && code <= 0x7a ? code - 0x20 : code;
+    return upper >= 0x40 && upper <= 0x5f ? String.fromCharCode(upper & 0x1f) : null;
+  }
+
+  if (CONTROL_KEYS.has(code)) {
+    return modifiers === 0 ? String.fromCharCode(code) : null;
+  }
+
+  if (modifiers & ~MOD_SHIFT || code < 0x20) {
+    return null;
+  }
+
+  if (event.text) {
+    return event.text;
+  }
+
+  const char = String.fromCodePoint(code);
+
+  if (modifiers & MOD_SHIFT) {
+    if (event.shiftedCode !== null) {
+      return String.fromCodePoint(event.shiftedCode);
+    }
+    // Without the shifted key only letters are certain
+    return char.toUpperCase() !== char ? char.toUpperCase() : null;
+  }
+
+  return event.modifiers & MOD_CAPS_LOCK ? char.toUpperCase() : char;
+}
+
+function isControl(value: string): boolean {
+  const code = value.charCodeAt(0);
+  return code < 0x20 || code === 0x7f;
+}
+
+/**
+ * Report a character as the kitty protocol would for a US layout key
+ */
+function encodeKittyKey(char: string, flags: number): string {
+  const code = char.codePointAt(0)!;
+  const isControl = code < 0x20 || code === 0x7f;
+
+  // Other control bytes, and text that no key produces (IME output)
+  if (isControl ? !CONTROL_KEYS.has(code) : code > 0x7e) {
+    return char;
+  }
+
+  if (!isControl && char.toUpperCase() === char && char.toLowerCase() !== char) {
+    const key = char.toLowerCase().codePointAt(0)!;
+    return flags & KITTY_FLAGS.associatedText ? `\x1b[${key};2;${code}u` : `\x1b[${key};2u`;
+  }
+
+  return !isControl && flags & KITTY_FLAGS.associatedText ? `\x1b[${code};;${code}u` : `\x1b[${code}u`;
+}
+
+/**
+ * Factory function for creating a key protocol codec
+ */
+export function createKeyProtocol(options: KeyProtocolOptions): KeyProtocol {
+  return new KeyProtocol(options);
+}
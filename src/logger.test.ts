@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLogger, LogRecord } from './logger';
+
+let dir: string;
+let file: string;
+
+function readRecords(name = file): LogRecord[] {
+  return fs.readFileSync(name, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'timp-logger-'));
+  file = path.join(dir, 'trace.log');
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('Logger', () => {
+  it('writes JSON lines with hex bytes to an owner-only file', () => {
+    const logger = createLogger({ file, verbose: true });
+    logger.log('debug', 'tokenizer', 'tokens', { bytes: 'a\r', decision: 'text' });
+    logger.close();
+
+    expect(readRecords()).toEqual([
+      expect.objectContaining({ level: 'debug', component: 'tokenizer', event: 'tokens', bytes: '61 0d', decision: 'text' }),
+    ]);
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+  });
+
+  it('names the component of prefixed debug messages', () => {
+    const logger = createLogger({ file, verbose: true });
+    logger.message('debug', '[CompositionBuffer] Flushed');
+    logger.close();
+
+    expect(readRecords()[0]).toMatchObject({ component: 'composition-buffer', event: 'message', message: 'Flushed' });
+  });
+
+  it('writes only info and above to a file unless verbose', () => {
+    const logger = createLogger({ file, level: 'trace' });
+    logger.log('debug', 'proxy', 'hidden');
+    logger.log('info', 'proxy', 'shown');
+    logger.setVerbose(true);
+    logger.log('trace', 'proxy', 'traced');
+    logger.close();
+
+    expect(readRecords().map((record) => record.event)).toEqual(['shown', 'traced']);
+  });
+
+  it('leaves out records below the configured level', () => {
+    const logger = createLogger({ file, level: 'warn', verbose: true });
+
+    expect(logger.isEnabled('warn')).toBe(true);
+    expect(logger.isEnabled('info')).toBe(false);
+  });
+
+  it('writes to stderr only when verbose without a file', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const logger = createLogger();
+    logger.log('info', 'proxy', 'quiet');
+    logger.setVerbose(true);
+    logger.message('debug', 'loud');
+
+    expect(error.mock.calls).toEqual([['[terminal-ime-proxy] loud']]);
+  });
+
+  it('replaces typed text and bytes with their length when redacting', () => {
+    const logger = createLogger({ file, redact: true, verbose: true });
+    logger.log('debug', 'buffer', 'commit', { text: 'mật khẩu', buffer: 'ab', bytes: 'abc' });
+    logger.message('debug', '[CompositionBuffer] Typed "mật khẩu"');
+    logger.close();
+
+    const records = readRecords();
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ text: '[8 chars]', buffer: '[2 chars]', bytes: '[3 bytes]' });
+    expect(fs.readFileSync(file, 'utf8')).not.toContain('khẩu');
+  });
+
+  it('rotates the file at maxSize and keeps maxFiles old ones', () => {
+    const logger = createLogger({ file, maxSize: 200, maxFiles: 2 });
+    for (let i = 0; i < 12; i++) {
+      logger.log('info', 'proxy', `event-${i}`);
+    }
+    logger.close();
+
+    expect(fs.readdirSync(dir).sort()).toEqual(['trace.log', 'trace.log.1', 'trace.log.2']);
+    expect(readRecords().pop()?.event).toBe('event-11');
+    expect(readRecords(`${file}.1`).length).toBeGreaterThan(0);
+  });
+
+  it('keeps logging to the current file when rotation fails', () => {
+    fs.mkdirSync(`${file}.1`);
+    fs.writeFileSync(path.join(`${file}.1`, 'blocker'), '');
+    const logger = createLogger({ file, maxSize: 200, maxFiles: 1 });
+
+    for (let i = 0; i < 6; i++) {
+      logger.log('info', 'proxy', `event-${i}`);
+    }
+    logger.close();
+
+    const events = readRecords().map((record) => record.event);
+    expect(events).toContain('rotate-failed');
+    expect(events.filter((event) => event.startsWith('event-'))).toHaveLength(6);
+  });
+
+  it('throws when the file cannot be opened', () => {
+    expect(() => createLogger({ file: path.join(dir, 'missing', 'trace.log') })).toThrow(/ENOENT/);
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Logger
+ * One sink for the proxy's trace output: JSON lines in a log file, so
+ * tracing doesn't draw over the app, or plain lines on stderr
+ */
+
+import * as fs from 'fs';
+
+/**
+ * Severity, most to least important
+ */
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug' | 'trace';
+
+export const LOG_LEVELS: readonly LogLevel[] = ['error', 'warn', 'info', 'debug', 'trace'];
+
+/**
+ * Structured details of a record
+ * - bytes: raw data, logged as hex
+ * - text, buffer: typed text and the composition buffer
+ * - decision: what the proxy decided (flush reason, write reason, ...)
+ */
+export interface LogFields {
+  message?: string;
+  bytes?: Buffer | string;
+  text?: string;
+  buffer?: string;
+  language?: string | null;
+  decision?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * One line of the log file
+ */
+export interface LogRecord extends LogFields {
+  time: string;
+  level: LogLevel;
+  component: string;
+  event: string;
+  bytes?: string;
+}
+
+export interface LoggerOptions {
+  /**
+   * JSON-lines log file; without one, records go to stderr as text
+   */
+  file?: string;
+
+  /**
+   * Least important level written
+   * Default: debug
+   */
+  level?: LogLevel;
+
+  /**
+   * Replace typed text and bytes with their length, and leave out
+   * free-form debug messages, which quote typed text
+   * Default: false
+   */
+  redact?: boolean;
+
+  /**
+   * Size in bytes at which the log file is rotated
+   * Default: 10 MiB
+   */
+  maxSize?: number;
+
+  /**
+   * Rotated files kept (file.1 is the newest)
+   * Default: 3
+   */
+  maxFiles?: number;
+
+  /**
+   * Write debug and trace records (the --debug switch); stderr gets
+   * nothing at all otherwise
+   * Default: false
+   */
+  verbose?: boolean;
+}
+
+const DEFAULT_MAX_SIZE = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 3;
+const STDERR_PREFIX = '[terminal-ime-proxy]';
+
+/**
+ * Component prefix of debug messages: "[CompositionBuffer] ..."
+ */
+const COMPONENT_PREFIX = /^\[(\w+)\] /;
+
+export class Logger {
+  private fd: number | null = null;
+  private size = 0;
+  private verbose: boolean;
+  private options: LoggerOptions;
+
+  constructor(options: LoggerOptions = {}) {
+    this.options = options;
+    this.verbose = options.verbose ?? false;
+
+    if (options.file) {
+      this.open();
+    }
+  }
+
+  /**
+   * Turn debug and trace records on or off
+   */
+  public setVerbose(enabled: boolean): void {
+    this.verbose = enabled;
+  }
+
+  /**
+   * Check if a record of this level would be written
+   */
+  public isEnabled(level: LogLevel): boolean {
+    if (LOG_LEVELS.indexOf(level) > LOG_LEVELS.indexOf(this.options.level ?? 'debug')) {
+      return false;
+    }
+    if (!this.options.file) {
+      return this.verbose;
+    }
+    return this.verbose || LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf('info');
+  }
+
+  /**
+   * Write a structured record
+   */
+  public log(level: LogLevel, component: string, event: string, fields: LogFields = {}): void {
+    if (!this.isEnabled(level)) return;
+
+    const { bytes, ...rest } = fields;
+    const record: LogRecord = {
+      time: new Date().toISOString(),
+      level,
+      component,
+      event,
+      ...rest,
+    };
+    if (bytes !== undefined) {
+      record.bytes = toHex(typeof bytes === 'string' ? Buffer.from(bytes, 'utf8') : bytes);
+    }
+
+    this.write(this.options.redact ? redact(record) : record);
+  }
+
+  /**
+   * Write a free-form debug message; a "[Component] " prefix names the
+   * component
+   * Dropped when redacting: the structured records carry the same text
+   * and bytes in fields that can be redacted
+   */
+  public message(level: LogLevel, message: string, component = 'proxy'): void {
+    if (!this.isEnabled(level) || this.options.redact) return;
+
+    if (!this.options.file) {
+      console.error(`${STDERR_PREFIX} ${message}`);
+      return;
+    }
+
+    const match = COMPONENT_PREFIX.exec(message);
+    if (match) {
+      component = kebabCase(match[1]);
+      message = message.slice(match[0].length);
+    }
+    this.log(level, component, 'message', { message });
+  }
+
+  /**
+   * Close the log file
+   */
+  public close(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  private write(record: LogRecord): void {
+    if (!this.options.file) {
+      console.error(`${STDERR_PREFIX} ${formatText(record)}`);
+      return;
+    }
+    if (this.fd === null) return;
+
+    const line = JSON.stringify(record) + '\n';
+    const length = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + length > (this.options.maxSize ?? DEFAULT_MAX_SIZE)) {
+      this.rotate();
+    }
+
+    // Written synchronously so the last records survive a crash
+    fs.writeSync(this.fd!, line);
+    this.size += length;
+  }
+
+  private open(): void {
+    this.fd = fs.openSync(this.options.file!, 'a', 0o600);
+    this.size = fs.fstatSync(this.fd).size;
+  }
+
+  /**
+   * file -> file.1 -> file.2 ..., dropping the oldest
+   * If that fails, logging goes on in the current file and rotation is
+   * tried again after another maxSize
+   */
+  private rotate(): void {
+    const file = this.options.file!;
+    const maxFiles = this.options.maxFiles ?? DEFAULT_MAX_FILES;
+    let fd: number;
+
+    try {
+      for (let i = maxFiles - 1; i >= 1; i--) {
+        if (fs.existsSync(`${file}.${i}`)) {
+          fs.renameSync(`${file}.${i}`, `${file}.${i + 1}`);
+        }
+      }
+      if (maxFiles > 0) {
+        fs.renameSync(file, `${file}.1`);
+      } else {
+        fs.unlinkSync(file);
+      }
+      fd = fs.openSync(file, 'a', 0o600);
+    } catch (e) {
+      this.size = 0;
+      this.log('warn', 'logger', 'rotate-failed', { message: (e as Error).message });
+      return;
+    }
+
+    this.close();
+    this.fd = fd;
+    this.size = 0;
+  }
+}
+
+/**
+ * Typed text and bytes replaced by their length
+ */
+function redact(record: LogRecord): LogRecord {
+  const redacted: LogRecord = { ...record };
+
+  for (const key of ['text', 'buffer'] as const) {
+    if (typeof redacted[key] === 'string') {
+      redacted[key] = `[${[...redacted[key]!].length} chars]`;
+    }
+  }
+  if (redacted.bytes !== undefined) {
+    redacted.bytes = `[${redacted.bytes ? redacted.bytes.split(' ').length : 0} bytes]`;
+  }
+  return redacted;
+}
+
+/**
+ * A record as one line of text for stderr
+ */
+function formatText(record: LogRecord): string {
+  const { time, level, component, event, message, ...fields } = record;
+  const details = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? JSON.stringify(value) : value}`)
+    .join(' ');
+
+  return `[${component}] ${event}${message ? `: ${message}` : ''}${details ? ` ${details}` : ''}`;
+}
+
+function kebabCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+}
+
+function toHex(data: Buffer): string {
+  return data.toString('hex').match(/.{1,2}/g)?.join(' ') ?? '';
+}
+
+/**
+ * Factory function for creating a logger
+ */
+export function createLogger(options?: LoggerOptions): Logger {
+  return new Logger(options);
+}
@@ -0,0 +1,176 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { ConfigError } from './config';
+import {
+  halfwidthPunctuation,
+  loadMiddlewares,
+  Middleware,
+  MiddlewareChain,
+  MiddlewareContext,
+  snippets,
+  stripSmartQuotes,
+} from './middleware';
+
+const COMMIT: MiddlewareContext = { source: 'commit', reason: 'flush', language: null };
+const OTHER: MiddlewareContext = { source: 'other', reason: 'paste', language: null };
+
+function createChain(middlewares: Middleware[], onOutput?: (text: string) => void) {
+  const output: string[] = [];
+  const debug: string[] = [];
+  const chain = new MiddlewareChain({
+    middlewares,
+    onOutput: onOutput ?? ((text) => output.push(text)),
+    onDebug: (message) => debug.push(message),
+  });
+  return { chain, output, debug };
+}
+
+function delay<T>(ms: number, value: T): Promise<T> {
+  return new Promise((resolve) => setTimeout(() => resolve(value), ms));
+}
+
+async function settle(): Promise<void> {
+  await delay(30, undefined);
+}
+
+describe('MiddlewareChain', () => {
+  it('applies middlewares in order and delivers at once when all are sync', () => {
+    const { chain, output } = createChain([(text) => text + '1', (text) => text + '2']);
+
+    chain.process('a', COMMIT);
+
+    expect(output).toEqual(['a12']);
+  });
+
+  it('drops writes a middleware returns empty or null for', () => {
+    const { chain, output } = createChain([(text) => (text === 'x' ? null : text)]);
+
+    chain.process('x', COMMIT);
+    chain.process('y', COMMIT);
+
+    expect(output).toEqual(['y']);
+  });
+
+  it('keeps writes in order behind a delayed one', async () => {
+    const { chain, output } = createChain([
+      (text) => (text === 'slow' ? delay(10, text.toUpperCase()) : text),
+    ]);
+
+    chain.process('slow', COMMIT);
+    chain.process('fast', COMMIT);
+    expect(output).toEqual([]);
+
+    await settle();
+    expect(output).toEqual(['SLOW', 'fast']);
+
+    chain.process('later', COMMIT);
+    expect(output).toEqual(['SLOW', 'fast', 'later']);
+  });
+
+  it('passes the text on when a middleware throws or rejects', async () => {
+    const { chain, output, debug } = createChain([
+      (text) => {
+        if (text === 'a') throw new Error('boom');
+        return text;
+      },
+      (text) => (text === 'b' ? Promise.reject(new Error('late boom')) : text),
+      (text) => text + '!',
+    ]);
+
+    chain.process('a', COMMIT);
+    chain.process('b', COMMIT);
+    await settle();
+
+    expect(output).toEqual(['a!', 'b!']);
+    expect(debug.some((message) => message.includes('boom'))).toBe(true);
+  });
+
+  it('still delivers queued writes when onOutput throws', async () => {
+    const output: string[] = [];
+    const { chain, debug } = createChain([(text) => delay(5, text)], (text) => {
+      if (text === 'a') throw new Error('write failed');
+      output.push(text);
+    });
+
+    chain.process('a', COMMIT);
+    chain.process('b', COMMIT);
+    await settle();
+
+    expect(output).toEqual(['b']);
+    expect(debug).toContain('[MiddlewareChain] Delivering commit write failed: write failed');
+  });
+});
+
+describe('built-in middlewares', () => {
+  it('expands snippets at the start of a word, even across writes', () => {
+    const { chain, output } = createChain([snippets({ ';sig': 'Best regards' })]);
+
+    chain.process(';s', COMMIT);
+    chain.process('ig', COMMIT);
+    chain.process('a;sig', COMMIT);
+
+    expect(output).toEqual([';s', '\x7f\x7fBest regards', 'a;sig']);
+  });
+
+  it('converts full-width and CJK punctuation', () => {
+    const { chain, output } = createChain([halfwidthPunctuation()]);
+
+    chain.process('你好，世界。「ok」', COMMIT);
+
+    expect(output).toEqual(['你好,世界."ok"']);
+  });
+
+  it('straightens smart quotes', () => {
+    const { chain, output } = createChain([stripSmartQuotes()]);
+
+    chain.process('“it’s”', COMMIT);
+
+    expect(output).toEqual(['"it\'s"']);
+  });
+
+  it('leaves keys and pastes alone', () => {
+    const { chain, output } = createChain([halfwidthPunctuation(), stripSmartQuotes()]);
+
+    chain.process('，“', OTHER);
+
+    expect(output).toEqual(['，“']);
+  });
+});
+
+describe('loadMiddlewares', () => {
+  it('resolves built-in names and passes functions through', () => {
+    const own: Middleware = (text) => text;
+    const [builtin, passed] = loadMiddlewares(['strip-smart-quotes', own]);
+
+    expect(builtin('“a”', COMMIT)).toBe('"a"');
+    expect(passed).toBe(own);
+  });
+
+  it('loads a middleware module by path', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'timp-middleware-'));
+    const file = path.join(dir, 'upper.js');
+    fs.writeFileSync(file, 'module.exports = (text) => text.toUpperCase();');
+
+    try {
+      const [upper] = loadMiddlewares([file]);
+      expect(upper('abc', COMMIT)).toBe('ABC');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('reports modules that are missing or export no function', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'timp-middleware-'));
+    const file = path.join(dir, 'object.js');
+    fs.writeFileSync(file, 'module.exports = { name: "not a middleware" };');
+
+    try {
+      expect(() => loadMiddlewares([path.join(dir, 'missing.js')])).toThrow(ConfigError);
+      expect(() => loadMiddlewares([file])).toThrow('middleware module must export a function');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
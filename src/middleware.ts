@@ -0,0 +1,294 @@
+/**
+ * Middleware
+ * Transforms between the composition buffer and the app: each middleware
+ * may rewrite, drop, expand or delay text, and writes still reach the app
+ * in the order they were made
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigError } from './config';
+import type { WriteReason } from './input-pipeline';
+
+/**
+ * Where a write came from
+ * - commit: a composition was committed
+ * - input: plain typed input
+ * - other: keys, pastes and edits (usually passed through unchanged)
+ */
+export type MiddlewareSource = 'commit' | 'input' | 'other';
+
+export interface MiddlewareContext {
+  source: MiddlewareSource;
+  reason: WriteReason;
+
+  /**
+   * Language of committed text, if known
+   */
+  language: string | null;
+}
+
+/**
+ * Returns the text to write, '' or null to drop it, or a promise of
+ * either to delay it
+ */
+export type Middleware = (
+  text: string,
+  context: MiddlewareContext
+) => string | null | Promise<string | null>;
+
+/**
+ * Names of the built-in middlewares
+ */
+export type BuiltinMiddleware = 'snippets' | 'halfwidth-punctuation' | 'strip-smart-quotes';
+
+export const BUILTIN_MIDDLEWARES: readonly BuiltinMiddleware[] = [
+  'snippets',
+  'halfwidth-punctuation',
+  'strip-smart-quotes',
+];
+
+export interface MiddlewareChainOptions {
+  middlewares: Middleware[];
+
+  /**
+   * Callback with the final text of each write, in order
+   */
+  onOutput: (text: string, context: MiddlewareContext) => void;
+
+  /**
+   * Optional callback for debug logging
+   */
+  onDebug?: (message: string) => void;
+}
+
+export class MiddlewareChain {
+  private options: MiddlewareChainOptions;
+
+  /**
+   * Settles once every delayed write so far has been delivered
+   */
+  private tail: Promise<void> | null = null;
+
+  constructor(options: MiddlewareChainOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Run a write through the chain
+   * Delivered at once unless a middleware (or an earlier write) is async
+   */
+  public process(text: string, context: MiddlewareContext): void {
+    const result = this.run(0, text, context);
+
+    if (!this.tail && !isPromise(result)) {
+      this.deliver(result, context);
+      return;
+    }
+
+    const tail: Promise<void> = (this.tail ?? Promise.resolve())
+      .then(() => result)
+      .then((output) => this.deliver(output, context))
+      .catch((e: Error) => this.debug(`Delayed ${context.source} write failed: ${e.message}`))
+      .finally(() => {
+        if (this.tail === tail) {
+          this.tail = null;
+        }
+      });
+    this.tail = tail;
+  }
+
+  /**
+   * Apply middlewares from index on; continues asynchronously after the
+   * first one that returns a promise
+   */
+  private run(index: number, text: string, context: MiddlewareContext): string | null | Promise<string | null> {
+    let current: string | null = text;
+
+    for (let i = index; i < this.options.middlewares.length && current; i++) {
+      let result: string | null | Promise<string | null>;
+      try {
+        result = this.options.middlewares[i](current, context);
+      } catch (e) {
+        this.debug(`Middleware ${i} failed, passing text on: ${(e as Error).message}`);
+        continue;
+      }
+
+      if (isPromise(result)) {
+        const input = current;
+        return result.then(
+          (output) => this.run(i + 1, output ?? '', context),
+          (e: Error) => {
+            this.debug(`Middleware ${i} failed, passing text on: ${e.message}`);
+            return this.run(i + 1, input, context);
+          }
+        );
+      }
+      current = result;
+    }
+
+    return current;
+  }
+
+  /**
+   * Hand the final text on; a failing onOutput is logged, so the writes
+   * queued behind it still go out
+   */
+  private deliver(text: string | null, context: MiddlewareContext): void {
+    if (!text) {
+      this.debug(`Dropped ${context.source} write`);
+      return;
+    }
+
+    try {
+      this.options.onOutput(text, context);
+    } catch (e) {
+      this.debug(`Delivering ${context.source} write failed: ${(e as Error).message}`);
+    }
+  }
+
+  /**
+   * Debug logging helper
+   */
+  private debug(message: string): void {
+    if (this.options.onDebug) {
+      this.options.onDebug(`[MiddlewareChain] ${message}`);
+    }
+  }
+}
+
+/**
+ * Expand snippet triggers as soon as they are typed, even across
+ * keystrokes: already-sent characters of the trigger are backspaced
+ * A trigger only fires at the start of a word
+ */
+export function snippets(expansions: Record<string, string>): Middleware {
+  const triggers = Object.keys(expansions).sort((a, b) => b.length - a.length);
+  const longest = triggers.length > 0 ? [...triggers[0]].length : 0;
+  let recent = '';
+
+  return (text, context) => {
+    if (context.source === 'other') {
+      recent = '';
+      return text;
+    }
+
+    const window = recent + text;
+    for (const trigger of triggers) {
+      const start = window.length - trigger.length;
+      if (!window.endsWith(trigger) || (start > 0 && !/\s/.test(window[start - 1]))) {
+        continue;
+      }
+
+      recent = '';
+      const sent = Math.max(0, trigger.length - text.length);
+      const kept = text.slice(0, Math.max(0, text.length - trigger.length));
+      return '\x7f'.repeat([...window.slice(start, start + sent)].length) + kept + expansions[trigger];
+    }
+
+    // One extra character to tell whether a trigger starts a word
+    recent = [...window].slice(-(longest + 1)).join('');
+    return text;
+  };
+}
+
+/**
+ * Full-width punctuation from Chinese and Japanese IMEs to ASCII (，→ ,)
+ */
+export function halfwidthPunctuation(): Middleware {
+  return (text, context) => {
+    if (context.source === 'other') {
+      return text;
+    }
+
+    return text.replace(FULLWIDTH_PUNCTUATION, (char) => {
+      const code = char.charCodeAt(0);
+      return code >= 0xff01 && code <= 0xff5e
+        ? String.fromCharCode(code - 0xfee0)
+        : CJK_PUNCTUATION[char] ?? char;
+    });
+  };
+}
+
+/**
+ * Curly quotes to straight ones (“ ” → ", ‘ ’ → ')
+ */
+export function stripSmartQuotes(): Middleware {
+  return (text, context) => {
+    if (context.source === 'other') {
+      return text;
+    }
+
+    return text.replace(/[‘’‚‛]/g, "'").replace(/[“”„‟]/g, '"');
+  };
+}
+
+/**
+ * Full-width ASCII punctuation plus common CJK punctuation
+ */
+const FULLWIDTH_PUNCTUATION = /[！-／：-＠［-｀｛-～、。「」【】《》…]/g;
+
+const CJK_PUNCTUATION: Record<string, string> = {
+  '、': ',',
+  '。': '.',
+  '「': '"',
+  '」': '"',
+  '【': '[',
+  '】': ']',
+  '《': '<',
+  '》': '>',
+  '…': '...',
+};
+
+export interface LoadMiddlewareOptions {
+  /**
+   * Trigger → expansion for the snippets middleware
+   */
+  snippets?: Record<string, string>;
+}
+
+/**
+ * Resolve middleware entries: built-in names, paths of JS modules that
+ * export a middleware (as default or module.exports), or functions
+ */
+export function loadMiddlewares(entries: Array<string | Middleware>, options: LoadMiddlewareOptions = {}): Middleware[] {
+  return entries.map((entry) => {
+    if (typeof entry === 'function') {
+      return entry;
+    }
+
+    switch (entry) {
+      case 'snippets':
+        return snippets(options.snippets ?? {});
+      case 'halfwidth-punctuation':
+        return halfwidthPunctuation();
+      case 'strip-smart-quotes':
+        return stripSmartQuotes();
+    }
+
+    const file = path.resolve(entry.replace(/^~(?=$|\/)/, os.homedir()));
+    let loaded: unknown;
+    try {
+      loaded = require(file);
+    } catch (e) {
+      throw new ConfigError(`cannot load middleware (${(e as Error).message.split('\n')[0]})`, entry);
+    }
+
+    const middleware = typeof loaded === 'function' ? loaded : (loaded as { default?: unknown })?.default;
+    if (typeof middleware !== 'function') {
+      throw new ConfigError('middleware module must export a function', entry);
+    }
+    return middleware as Middleware;
+  });
+}
+
+/**
+ * Factory function for creating a middleware chain
+ */
+export function createMiddlewareChain(options: MiddlewareChainOptions): MiddlewareChain {
+  return new MiddlewareChain(options);
+}
+
+function isPromise<T>(value: T | Promise<T>): value is Promise<T> {
+  return typeof (value as Promise<T> | null)?.then === 'function';
+}
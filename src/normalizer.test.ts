@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createNormalizer } from './normalizer';
+
+const COMPOSED = 'việt';
+const DECOMPOSED = 'việt';
+
+describe('Normalizer', () => {
+  it('normalizes to the chosen form', () => {
+    expect(createNormalizer('nfc').normalize(DECOMPOSED)).toBe(COMPOSED);
+    expect(createNormalizer('nfd').normalize(COMPOSED)).toBe(DECOMPOSED);
+    expect(createNormalizer('nfkc').normalize('ｆｕｌｌ')).toBe('full');
+    expect(createNormalizer().normalize(DECOMPOSED)).toBe(DECOMPOSED);
+  });
+
+  it('holds back the last letter with its marks', () => {
+    const normalizer = createNormalizer('nfd');
+
+    expect(normalizer.apply(COMPOSED)).toEqual({ text: 'việ', held: 't' });
+    expect(normalizer.apply('cà')).toEqual({ text: 'c', held: 'à' });
+    expect(normalizer.apply('ok!')).toEqual({ text: 'ok!', held: '' });
+  });
+
+  it('joins marks that follow a held letter', () => {
+    const normalizer = createNormalizer('nfc');
+    const first = normalizer.apply('ca');
+
+    expect(first).toEqual({ text: 'c', held: 'a' });
+    expect(normalizer.apply(first.held + '̀')).toEqual({ text: '', held: 'à' });
+  });
+
+  it('holds nothing when off', () => {
+    const normalizer = createNormalizer('nfc');
+    normalizer.setMode('none');
+
+    expect(normalizer.getMode()).toBe('none');
+    expect(normalizer.apply('ca')).toEqual({ text: 'ca', held: '' });
+  });
+});
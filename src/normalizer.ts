@@ -0,0 +1,86 @@
+/**
+ * Normalizer
+ * Unicode normalization for text leaving the proxy, so the app gets
+ * Vietnamese (and other accented text) in one consistent form
+ */
+
+/**
+ * Normalization applied to committed and regular text
+ * - none: forwarded as received
+ * - nfc: precomposed (à as U+00E0)
+ * - nfd: decomposed (a + U+0300)
+ * - nfkc: precomposed, with compatibility forms folded (ｆｕｌｌ → full)
+ */
+export type NormalizationMode = 'none' | 'nfc' | 'nfd' | 'nfkc';
+
+export const NORMALIZATION_MODES: readonly NormalizationMode[] = ['none', 'nfc', 'nfd', 'nfkc'];
+
+/**
+ * Last letter of a text, with any marks already attached to it
+ */
+const TRAILING_LETTER = /\p{L}\p{M}*$/u;
+
+/**
+ * Text to write after normalization
+ * held is a last letter that combining marks in the next write may still
+ * belong to; it is written with that write, or on its own a moment later
+ */
+export interface NormalizedText {
+  text: string;
+  held: string;
+}
+
+export class Normalizer {
+  private mode: NormalizationMode;
+
+  constructor(mode: NormalizationMode = 'none') {
+    this.mode = mode;
+  }
+
+  /**
+   * Change the normalization mode
+   */
+  public setMode(mode: NormalizationMode): void {
+    this.mode = mode;
+  }
+
+  /**
+   * Get the normalization mode
+   */
+  public getMode(): NormalizationMode {
+    return this.mode;
+  }
+
+  /**
+   * Normalize a string on its own
+   */
+  public normalize(text: string): string {
+    return this.mode === 'none' ? text : text.normalize(this.mode.toUpperCase() as 'NFC' | 'NFD' | 'NFKC');
+  }
+
+  /**
+   * Normalize text about to be written, holding back its last letter
+   * Combining marks typed after a letter are normalized together with it
+   * when they arrive while it is held, instead of repairing what the app
+   * already has
+   */
+  public apply(text: string): NormalizedText {
+    if (this.mode === 'none') {
+      return { text, held: '' };
+    }
+
+    const normalized = this.normalize(text);
+    const last = TRAILING_LETTER.exec(normalized);
+    if (!last) {
+      return { text: normalized, held: '' };
+    }
+    return { text: normalized.slice(0, last.index), held: last[0] };
+  }
+}
+
+/**
+ * Factory function for creating a normalizer
+ */
+export function createNormalizer(mode?: NormalizationMode): Normalizer {
+  return new Normalizer(mode);
+}
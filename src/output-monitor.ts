@@ -0,0 +1,236 @@
+/**
+ * Output Monitor
+ * Watches the wrapped application's output for terminal mode changes
+ */
+
+import type { KeyboardMode } from './key-protocol';
+
+/**
+ * DEC private modes the proxy cares about
+ */
+export const DEC_MODES = {
+  autoWrap: 7,
+  mouseX10: 9,
+  mouseClick: 1000,
+  mouseDrag: 1002,
+  mouseMotion: 1003,
+  focusReporting: 1004,
+  mouseSgr: 1006,
+  alternateScreen: 1049,
+  bracketedPaste: 2004,
+} as const;
+
+/**
+ * Modes that switch to the alternate screen, which has its own kitty
+ * keyboard flags
+ */
+const ALTERNATE_SCREEN_MODES = [47, 1047, DEC_MODES.alternateScreen];
+
+/**
+ * Modes that turn on mouse reporting
+ */
+export const MOUSE_MODES = [DEC_MODES.mouseX10, DEC_MODES.mouseClick, DEC_MODES.mouseDrag, DEC_MODES.mouseMotion];
+
+/**
+ * Modes a terminal starts with, and returns to on reset
+ */
+const DEFAULT_MODES: number[] = [DEC_MODES.autoWrap];
+
+/**
+ * DEC private mode set/reset: CSI ? Pm h / CSI ? Pm l
+ */
+const DEC_MODE_PATTERN = /\x1b\[\?([\d;]+)([hl])/g;
+
+/**
+ * Kitty keyboard protocol push, pop and set: CSI > flags u, CSI < n u,
+ * CSI = flags ; mode u
+ */
+const KITTY_KEYBOARD_PATTERN = /\x1b\[([>=<])(\d*)(?:;(\d*))?u/g;
+
+/**
+ * xterm modifyOtherKeys: CSI > 4 ; level m, reset with CSI > 4 n
+ */
+const MODIFY_OTHER_KEYS_PATTERN = /\x1b\[>4(?:;(\d*))?([mn])/g;
+
+/**
+ * Full terminal reset: ESC c
+ */
+const RESET_PATTERN = /\x1bc/;
+
+/**
+ * Start of an escape sequence cut off at the end of a chunk
+ */
+const PARTIAL_SEQUENCE = /\x1b(\[[?<=>\d;]*)?$/;
+
+export interface OutputMonitorOptions {
+  /**
+   * Optional callback when a mode is set or reset
+   */
+  onModeChange?: (mode: number, enabled: boolean) => void;
+
+  /**
+   * Optional callback when the keyboard reporting the app asked for
+   * changes (kitty flags of the active screen, modifyOtherKeys)
+   */
+  onKeyboardModeChange?: (mode: KeyboardMode) => void;
+
+  /**
+   * Optional callback for debug logging
+   */
+  onDebug?: (message: string) => void;
+}
+
+export class OutputMonitor {
+  private modes = new Set<number>(DEFAULT_MODES);
+  private keyboardStacks: Record<'main' | 'alternate', number[]> = { main: [], alternate: [] };
+  private modifyOtherKeys = 0;
+  private carry = '';
+  private options: OutputMonitorOptions;
+
+  constructor(options: OutputMonitorOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Scan a chunk of application output
+   */
+  public scan(data: string): void {
+    const text = this.carry + data;
+    const keyboard = this.getKeyboardMode();
+
+    // Keep a cut-off sequence for the next chunk
+    const partial = PARTIAL_SEQUENCE.exec(text);
+    this.carry = partial ? partial[0] : '';
+
+    if (RESET_PATTERN.test(text)) {
+      this.debug('Terminal reset, restoring default modes');
+      for (const mode of [...this.modes]) {
+        this.setMode(mode, DEFAULT_MODES.includes(mode));
+      }
+      for (const mode of DEFAULT_MODES) {
+        this.setMode(mode, true);
+      }
+      this.keyboardStacks = { main: [], alternate: [] };
+      this.modifyOtherKeys = 0;
+    }
+
+    for (const match of text.matchAll(DEC_MODE_PATTERN)) {
+      const enabled = match[2] === 'h';
+      for (const param of match[1].split(';')) {
+        const mode = parseInt(param, 10);
+        if (!isNaN(mode)) {
+          this.setMode(mode, enabled);
+        }
+      }
+    }
+
+    for (const match of text.matchAll(KITTY_KEYBOARD_PATTERN)) {
+      this.updateKeyboardStack(match[1], match[2] ? parseInt(match[2], 10) : null, parseInt(match[3], 10) || 1);
+    }
+
+    for (const match of text.matchAll(MODIFY_OTHER_KEYS_PATTERN)) {
+      const level = match[2] === 'm' && match[1] ? parseInt(match[1], 10) : 0;
+      if (level !== this.modifyOtherKeys) {
+        this.debug(`modifyOtherKeys level ${level}`);
+        this.modifyOtherKeys = level;
+      }
+    }
+
+    const next = this.getKeyboardMode();
+    if (next.kittyFlags !== keyboard.kittyFlags || next.modifyOtherKeys !== keyboard.modifyOtherKeys) {
+      this.options.onKeyboardModeChange?.(next);
+    }
+  }
+
+  /**
+   * Keyboard reporting the application requested
+   */
+  public getKeyboardMode(): KeyboardMode {
+    const stack = this.keyboardStack();
+    return {
+      kittyFlags: stack.length > 0 ? stack[stack.length - 1] : 0,
+      modifyOtherKeys: this.modifyOtherKeys,
+    };
+  }
+
+  /**
+   * Check if the application enabled a DEC private mode
+   */
+  public isModeEnabled(mode: number): boolean {
+    return this.modes.has(mode);
+  }
+
+  /**
+   * Check if the application asked for mouse reports
+   */
+  public isMouseReportingEnabled(): boolean {
+    return MOUSE_MODES.some((mode) => this.modes.has(mode));
+  }
+
+  /**
+   * Check if the last chunk ended inside an escape sequence
+   * Nothing may be written to the terminal until it is complete
+   */
+  public isInSequence(): boolean {
+    return this.carry !== '';
+  }
+
+  /**
+   * Kitty keyboard flags stack of the active screen
+   */
+  private keyboardStack(): number[] {
+    const alternate = ALTERNATE_SCREEN_MODES.some((mode) => this.modes.has(mode));
+    return this.keyboardStacks[alternate ? 'alternate' : 'main'];
+  }
+
+  /**
+   * Apply a kitty keyboard protocol request
+   * - >: push flags
+   * - <: pop the given number of entries
+   * - =: set (1), add (2) or remove (3) flags of the current entry
+   */
+  private updateKeyboardStack(action: string, value: number | null, mode: number): void {
+    const stack = this.keyboardStack();
+
+    if (action === '>') {
+      stack.push(value ?? 0);
+    } else if (action === '<') {
+      stack.splice(Math.max(0, stack.length - (value || 1)));
+    } else {
+      const current = stack.length > 0 ? stack.pop()! : 0;
+      const flags = value ?? 0;
+      stack.push(mode === 2 ? current | flags : mode === 3 ? current & ~flags : flags);
+    }
+
+    this.debug(`Kitty keyboard flags ${this.getKeyboardMode().kittyFlags} (stack depth ${stack.length})`);
+  }
+
+  private setMode(mode: number, enabled: boolean): void {
+    if (this.modes.has(mode) === enabled) return;
+
+    if (enabled) {
+      this.modes.add(mode);
+    } else {
+      this.modes.delete(mode);
+    }
+
+    this.debug(`Mode ${mode} ${enabled ? 'enabled' : 'disabled'}`);
+    this.options.onModeChange?.(mode, enabled);
+  }
+
+  /**
+   * Debug logging helper
+   */
+  private debug(message: string): void {
+    if (this.options.onDebug) {
+      this.options.onDebug(`[OutputMonitor] ${message}`);
+    }
+  }
+}
+
+/**
+ * Factory function for creating an output monitor
+ */
+export function createOutputMonitor(options?: OutputMonitorOptions): OutputMonitor {
+  return new OutputMonitor(options);
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { createPreeditRenderer, PreeditRendererOptions } from './preedit-renderer';
+
+function create(options: Partial<PreeditRendererOptions> = {}) {
+  const writes: string[] = [];
+  const renderer = createPreeditRenderer({
+    write: (data) => writes.push(data),
+    getColumns: () => 20,
+    getCursorColumn: () => 5,
+    ...options,
+  });
+  return { renderer, writes };
+}
+
+describe('PreeditRenderer', () => {
+  it('inserts the text at the cursor and steps back over it', () => {
+    const { renderer, writes } = create();
+    renderer.update('你好');
+
+    expect(writes).toEqual(['\x1b[?7l\x1b[4@\x1b[4m你好\x1b[0m\x1b[?7h\x1b[4D']);
+    expect(writes.join('')).not.toMatch(/\x1b[78]/);
+  });
+
+  it('deletes the drawing before drawing new text', () => {
+    const { renderer, writes } = create({ style: 'reverse', isAutoWrapEnabled: () => false });
+    renderer.update('a');
+    renderer.update('ab');
+    renderer.update('');
+
+    expect(writes).toEqual([
+      '\x1b[1@\x1b[7ma\x1b[0m\x1b[1D',
+      '\x1b[1P\x1b[2@\x1b[7mab\x1b[0m\x1b[2D',
+      '\x1b[2P',
+    ]);
+  });
+
+  it('cuts the text to the cells right of the cursor', () => {
+    const { renderer, writes } = create({ getCursorColumn: () => 16, isAutoWrapEnabled: () => false });
+    renderer.update('xin chào');
+
+    // The cursor stops on the last column, three cells from where it was
+    expect(writes).toEqual(['\x1b[4@\x1b[4mchào\x1b[0m\x1b[3D']);
+  });
+
+  it('keeps the start of the text when truncating the end', () => {
+    const { renderer, writes } = create({ truncate: 'end', getCursorColumn: () => 17, isAutoWrapEnabled: () => false });
+    renderer.update('你好吗');
+
+    expect(writes).toEqual(['\x1b[2@\x1b[4m你\x1b[0m\x1b[2D']);
+  });
+
+  it('draws nothing where not even one character fits', () => {
+    const { renderer, writes } = create({ getCursorColumn: () => 19 });
+    renderer.update('你');
+
+    expect(writes).toEqual([]);
+  });
+
+  it('waits until drawing is safe and draws on the next draw()', () => {
+    let safe = false;
+    const { renderer, writes } = create({ canDraw: () => safe, isAutoWrapEnabled: () => false });
+    renderer.update('a');
+    expect(writes).toEqual([]);
+
+    safe = true;
+    renderer.draw();
+    renderer.erase();
+    expect(writes).toEqual(['\x1b[1@\x1b[4ma\x1b[0m\x1b[1D', '\x1b[1P']);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Pre-edit Renderer
+ * Draws the text held in the composition buffer at the cursor, so a
+ * pending composition is visible before it reaches the app
+ *
+ * The drawing is inserted into the line (ICH) and deleted again (DCH), so
+ * the app's text right of the cursor moves aside instead of being covered;
+ * only text pushed past the right margin is lost until the app redraws.
+ * The cursor is moved back over the drawing (CUB) rather than saved and
+ * restored, which would overwrite the app's own saved cursor
+ */
+
+import { fitEnd, fitStart, stringWidth } from './char-width';
+
+/**
+ * How the pre-edit is highlighted
+ */
+export type PreeditStyle = 'underline' | 'reverse';
+
+export const PREEDIT_STYLES: readonly PreeditStyle[] = ['underline', 'reverse'];
+
+const RESET_ATTRIBUTES = '\x1b[0m';
+const AUTOWRAP_OFF = '\x1b[?7l';
+const AUTOWRAP_ON = '\x1b[?7h';
+
+const STYLE_ATTRIBUTES: Record<PreeditStyle, string> = {
+  underline: '\x1b[4m',
+  reverse: '\x1b[7m',
+};
+
+export interface PreeditRendererOptions {
+  /**
+   * Highlight of the pre-edit
+   * Default: underline
+   */
+  style?: PreeditStyle;
+
+  /**
+   * Which end of text wider than the terminal is cut
+   * Default: start, keeping what was typed last
+   */
+  truncate?: 'start' | 'end';
+
+  /**
+   * Write escape sequences to the user's terminal
+   */
+  write: (data: string) => void;
+
+  /**
+   * Width of the user's terminal
+   */
+  getColumns: () => number;
+
+  /**
+   * Column of the cursor, from 0; the drawing is cut to fit right of it
+   */
+  getCursorColumn: () => number;
+
+  /**
+   * Whether the app left autowrap on; it is turned off while drawing so
+   * a long pre-edit can't scroll the screen
+   */
+  isAutoWrapEnabled?: () => boolean;
+
+  /**
+   * Whether drawing is safe now; false while the app's output is in the
+   * middle of an escape sequence (the text is drawn on the next draw())
+   */
+  canDraw?: () => boolean;
+
+  /**
+   * Optional callback for debug logging
+   */
+  onDebug?: (message: string) => void;
+}
+
+export class PreeditRenderer {
+  private text = '';
+  private drawnWidth = 0;
+  private options: PreeditRendererOptions;
+
+  constructor(options: PreeditRendererOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Show new pre-edit text, or remove it when empty
+   */
+  public update(text: string): void {
+    if (text === this.text && (this.drawnWidth > 0 || !text)) return;
+
+    this.text = text;
+    this.redraw();
+  }
+
+  /**
+   * Remove the drawing, keeping the text for the next draw
+   */
+  public erase(): void {
+    if (this.drawnWidth === 0) return;
+
+    this.options.write(this.eraseSequence());
+    this.drawnWidth = 0;
+  }
+
+  /**
+   * Draw the text if it isn't shown (after the app wrote output)
+   */
+  public draw(): void {
+    if (this.drawnWidth > 0 || !this.text) return;
+    this.redraw();
+  }
+
+  /**
+   * Erase and draw again at the cursor (after a resize)
+   */
+  public redraw(): void {
+    if (this.drawnWidth === 0 && !this.text) return;
+    if (this.options.canDraw && !this.options.canDraw()) return;
+
+    let sequence = this.eraseSequence();
+    let width = 0;
+
+    // Never wider than the cells right of the cursor
+    const columns = this.options.getColumns();
+    const column = Math.max(0, Math.min(this.options.getCursorColumn(), columns - 1));
+    const cells = columns - column;
+    const visible = this.options.truncate === 'end' ? fitStart(this.text, cells) : fitEnd(this.text, cells);
+
+    if (visible) {
+      const wrap = this.options.isAutoWrapEnabled?.() ?? true;
+      const style = STYLE_ATTRIBUTES[this.options.style ?? 'underline'];
+
+      // With autowrap off the cursor stops on the last column
+      width = stringWidth(visible);
+      const back = Math.min(column + width, columns - 1) - column;
+
+      sequence += (wrap ? AUTOWRAP_OFF : '') + `\x1b[${width}@` + style + visible + RESET_ATTRIBUTES + (wrap ? AUTOWRAP_ON : '');
+      sequence += back > 0 ? `\x1b[${back}D` : '';
+      this.debug(`Drawing "${visible}" (${width} cells at column ${column})`);
+    }
+
+    if (sequence) {
+      this.options.write(sequence);
+    }
+    this.drawnWidth = width;
+  }
+
+  /**
+   * Delete the cells of the current drawing at the cursor, moving the
+   * app's text back into place
+   */
+  private eraseSequence(): string {
+    return this.drawnWidth > 0 ? `\x1b[${this.drawnWidth}P` : '';
+  }
+
+  /**
+   * Debug logging helper
+   */
+  private debug(message: string): void {
+    if (this.options.onDebug) {
+      this.options.onDebug(`[PreeditRenderer] ${message}`);
+    }
+  }
+}
+
+/**
+ * Factory function for creating a pre-edit renderer
+ */
+export function createPreeditRenderer(options: PreeditRendererOptions): PreeditRenderer {
+  return new PreeditRenderer(options);
+}
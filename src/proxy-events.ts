@@ -0,0 +1,65 @@
+/**
+ * Proxy Events
+ * What TerminalIMEProxy emits, for telemetry and custom UIs
+ */
+
+import type { FlushReason } from './composition-buffer';
+import type { WriteReason } from './input-pipeline';
+import type { ProxyExit } from './terminal-ime-proxy';
+
+/**
+ * Text held in the composition buffer
+ */
+export interface CompositionEvent {
+  text: string;
+
+  /**
+   * Detected language (or the input engine's), if known
+   */
+  language: string | null;
+}
+
+/**
+ * A composition committed by the buffer, as it was before middleware and
+ * normalization changed it on its way to the app
+ */
+export interface CommitEvent extends CompositionEvent {
+  reason: FlushReason;
+}
+
+/**
+ * Input forwarded to the app without composition
+ */
+export interface PassthroughEvent {
+  text: string;
+  reason: Exclude<WriteReason, 'flush'>;
+}
+
+export interface ResizeEvent {
+  cols: number;
+  rows: number;
+}
+
+/**
+ * Events by name, with their listener signatures
+ * - input: raw chunk read from the keyboard
+ * - composition-start: text started collecting in the buffer
+ * - composition-update: the buffered text changed (empty once committed
+ *   or cleared)
+ * - commit: the buffer committed its text, and why; emitted before the
+ *   text goes through middleware to the app
+ * - passthrough: anything else written to the app
+ * - resize: the terminal (and the app's pty) changed size
+ * - exit: the app exited
+ */
+export interface ProxyEvents {
+  'input': (data: Buffer) => void;
+  'composition-start': (event: CompositionEvent) => void;
+  'composition-update': (event: CompositionEvent) => void;
+  'commit': (event: CommitEvent) => void;
+  'passthrough': (event: PassthroughEvent) => void;
+  'resize': (event: ResizeEvent) => void;
+  'exit': (exit: ProxyExit) => void;
+}
+
+export type ProxyEventName = keyof ProxyEvents;
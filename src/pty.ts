@@ -0,0 +1,56 @@
+/**
+ * Pseudo-terminal backend
+ * The small part of node-pty the proxy uses, so another backend (or the
+ * in-memory FakePty) can be swapped in
+ */
+
+import type * as NodePty from 'node-pty';
+
+export interface PtySpawnOptions {
+  name: string;
+  cols: number;
+  rows: number;
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+}
+
+export interface PtyExitEvent {
+  exitCode: number;
+  signal?: number;
+}
+
+export interface PtyDisposable {
+  dispose(): void;
+}
+
+/**
+ * A running application attached to a pseudo-terminal
+ */
+export interface PtyProcess {
+  readonly pid: number;
+  readonly cols: number;
+  readonly rows: number;
+  write(data: string): void;
+  resize(cols: number, rows: number): void;
+  kill(signal?: string): void;
+  onData(listener: (data: string) => void): PtyDisposable;
+  onExit(listener: (event: PtyExitEvent) => void): PtyDisposable;
+}
+
+/**
+ * Creates pseudo-terminal processes
+ */
+export interface PtyFactory {
+  spawn(file: string, args: string[], options: PtySpawnOptions): PtyProcess;
+}
+
+/**
+ * Default backend: node-pty, loaded on first use so embedders with their
+ * own backend don't need its native module
+ */
+export const nodePtyFactory: PtyFactory = {
+  spawn(file, args, options) {
+    const nodePty: typeof NodePty = require('node-pty');
+    return nodePty.spawn(file, args, options);
+  },
+};
@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createSessionRecorder, readRecording, RecordingError } from './session-recorder';
+
+let dir: string;
+let file: string;
+
+const HEADER = { command: ['app'], settings: {}, jobControl: false, cols: 80, rows: 24 };
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'timp-recording-'));
+  file = path.join(dir, 'session.jsonl');
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('SessionRecorder', () => {
+  it('writes a header and timestamped events that read back', () => {
+    const recorder = createSessionRecorder(file, HEADER);
+    recorder.recordInput(Buffer.from('你'));
+    recorder.recordMode(2004, true);
+    recorder.recordKeyboardMode({ kittyFlags: 1, modifyOtherKeys: 0 });
+    recorder.recordWrite('你', 'flush');
+    recorder.close();
+
+    const recording = readRecording(file);
+    expect(recording.header).toMatchObject({ type: 'header', version: 1, command: ['app'], cols: 80, rows: 24 });
+    expect(recording.events.map(({ t, ...event }) => event)).toEqual([
+      { type: 'input', bytes: 'e4bda0' },
+      { type: 'mode', mode: 2004, enabled: true },
+      { type: 'keyboard', kittyFlags: 1, modifyOtherKeys: 0 },
+      { type: 'write', reason: 'flush', bytes: 'e4bda0' },
+    ]);
+    expect(recording.events.every((event) => event.t >= 0)).toBe(true);
+  });
+
+  it('creates the file readable by its owner only', () => {
+    createSessionRecorder(file, HEADER).close();
+
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+  });
+
+  it('reports a file it cannot create as a RecordingError', () => {
+    expect(() => createSessionRecorder(path.join(dir, 'missing', 'session.jsonl'), HEADER))
+      .toThrow(RecordingError);
+  });
+
+  it('records only settings that survive JSON and names the others', () => {
+    const recorder = createSessionRecorder(file, {
+      ...HEADER,
+      settings: {
+        compositionTimeout: 50,
+        middleware: ['snippets', (text: string) => text, './upper.js'],
+        snippets: { ';s': 'sig' },
+        commitStrategy: { name: 'custom', shouldFlush: () => false } as never,
+      },
+    });
+    recorder.close();
+
+    const { header } = readRecording(file);
+    expect(header.settings).toEqual({
+      compositionTimeout: 50,
+      middleware: ['snippets', './upper.js'],
+      snippets: { ';s': 'sig' },
+    });
+    expect(header.omitted).toEqual(['middleware[1]', 'commitStrategy']);
+  });
+});
+
+describe('readRecording', () => {
+  it('rejects missing files, invalid JSON and files without a header', () => {
+    fs.writeFileSync(file, '{"type":"header","version":1,"command":[]}\nnot json\n');
+    expect(() => readRecording(file)).toThrow('line 2 is not valid JSON');
+
+    fs.writeFileSync(file, '{"type":"input","t":0,"bytes":""}\n');
+    expect(() => readRecording(file)).toThrow('missing version 1 header');
+
+    expect(() => readRecording(path.join(dir, 'none.jsonl'))).toThrow(RecordingError);
+  });
+
+  it('skips lines of unknown types', () => {
+    fs.writeFileSync(file, [
+      JSON.stringify({ type: 'header', version: 1, ...HEADER, startedAt: '' }),
+      JSON.stringify({ type: 'comment', t: 1 }),
+      JSON.stringify({ type: 'input', t: 2, bytes: '61' }),
+    ].join('\n'));
+
+    expect(readRecording(file).events).toEqual([{ type: 'input', t: 2, bytes: '61' }]);
+  });
+});
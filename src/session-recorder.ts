@@ -0,0 +1,212 @@
+/**
+ * Session Recorder
+ * Saves every stdin chunk and every write to the app, with high-resolution
+ * timestamps, as JSON lines so IME bugs can be replayed exactly
+ */
+
+import * as fs from 'fs';
+import type { InputPipelineSettings, WriteReason } from './input-pipeline';
+import type { KeyboardMode } from './key-protocol';
+
+/**
+ * First line of a recording
+ */
+export interface RecordingHeader {
+  type: 'header';
+  version: 1;
+  command: string[];
+  settings: InputPipelineSettings;
+
+  /**
+   * Settings left out because they are code (middleware functions, custom
+   * commit strategies); a replay runs without them
+   */
+  omitted?: string[];
+
+  /**
+   * Whether Ctrl+Z suspended the proxy instead of reaching the app
+   */
+  jobControl?: boolean;
+
+  cols: number;
+  rows: number;
+  startedAt: string;
+}
+
+/**
+ * Timestamped events; `t` is ms since the start, `bytes` is hex
+ * - input: raw stdin chunk
+ * - write: what the proxy sent to the app, and why
+ * - mode: the app enabled or disabled a terminal mode
+ * - keyboard: the app changed the keyboard reporting it wants
+ */
+export type RecordingEvent =
+  | { type: 'input'; t: number; bytes: string }
+  | { type: 'write'; t: number; reason: WriteReason; bytes: string }
+  | { type: 'mode'; t: number; mode: number; enabled: boolean }
+  | ({ type: 'keyboard'; t: number } & KeyboardMode);
+
+export interface Recording {
+  header: RecordingHeader;
+  events: RecordingEvent[];
+}
+
+/**
+ * Error for a recording that can't be read or written
+ */
+export class RecordingError extends Error {
+  constructor(message: string, file: string) {
+    super(`${file}: ${message}`);
+    this.name = 'RecordingError';
+  }
+}
+
+export class SessionRecorder {
+  private fd: number | null;
+  private start = process.hrtime.bigint();
+
+  constructor(file: string, header: Omit<RecordingHeader, 'type' | 'version' | 'startedAt' | 'omitted'>) {
+    // Owner-only: the recording holds every keystroke, passwords included
+    try {
+      this.fd = fs.openSync(file, 'w', 0o600);
+    } catch (e) {
+      throw new RecordingError(`cannot create recording (${(e as NodeJS.ErrnoException).code ?? (e as Error).message})`, file);
+    }
+
+    const { settings, omitted } = serializableSettings(header.settings);
+    this.append({
+      type: 'header',
+      version: 1,
+      ...header,
+      settings,
+      ...(omitted.length > 0 ? { omitted } : {}),
+      startedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Record a raw stdin chunk
+   */
+  public recordInput(data: Buffer): void {
+    this.append({ type: 'input', t: this.now(), bytes: data.toString('hex') });
+  }
+
+  /**
+   * Record text written to the app
+   */
+  public recordWrite(text: string, reason: WriteReason): void {
+    this.append({ type: 'write', t: this.now(), reason, bytes: Buffer.from(text, 'utf8').toString('hex') });
+  }
+
+  /**
+   * Record a terminal mode change requested by the app
+   */
+  public recordMode(mode: number, enabled: boolean): void {
+    this.append({ type: 'mode', t: this.now(), mode, enabled });
+  }
+
+  /**
+   * Record a change of the keyboard reporting requested by the app
+   */
+  public recordKeyboardMode(mode: KeyboardMode): void {
+    this.append({ type: 'keyboard', t: this.now(), ...mode });
+  }
+
+  /**
+   * Close the recording file
+   */
+  public close(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  /**
+   * Milliseconds since the recording started, microsecond precision
+   */
+  private now(): number {
+    return Number(process.hrtime.bigint() - this.start) / 1e6;
+  }
+
+  private append(record: RecordingHeader | RecordingEvent): void {
+    // Written synchronously so nothing is lost if the app exits abruptly
+    if (this.fd !== null) {
+      fs.writeSync(this.fd, JSON.stringify(record) + '\n');
+    }
+  }
+}
+
+/**
+ * Settings that survive JSON, and the names of those that don't
+ * Middleware paths and built-in names are kept, functions are not
+ */
+function serializableSettings(settings: InputPipelineSettings): { settings: InputPipelineSettings; omitted: string[] } {
+  const kept: Record<string, unknown> = {};
+  const omitted: string[] = [];
+
+  for (const [key, value] of Object.entries(settings)) {
+    if (Array.isArray(value)) {
+      kept[key] = value.filter((entry, i) => {
+        if (!hasFunction(entry)) return true;
+        omitted.push(`${key}[${i}]`);
+        return false;
+      });
+    } else if (hasFunction(value)) {
+      omitted.push(key);
+    } else {
+      kept[key] = value;
+    }
+  }
+
+  return { settings: kept as InputPipelineSettings, omitted };
+}
+
+function hasFunction(value: unknown): boolean {
+  if (typeof value === 'function') return true;
+  if (typeof value !== 'object' || value === null) return false;
+  return Object.values(value).some(hasFunction);
+}
+
+/**
+ * Read and check a recording file
+ */
+export function readRecording(file: string): Recording {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(file, 'utf8');
+  } catch (e) {
+    throw new RecordingError(`cannot read recording (${(e as NodeJS.ErrnoException).code ?? (e as Error).message})`, file);
+  }
+
+  const lines = raw.split('\n').filter((line) => line.trim());
+  const records = lines.map((line, i) => {
+    try {
+      return JSON.parse(line);
+    } catch {
+      throw new RecordingError(`line ${i + 1} is not valid JSON`, file);
+    }
+  });
+
+  const header = records.shift();
+  if (!header || header.type !== 'header' || header.version !== 1) {
+    throw new RecordingError('not a terminal-ime-proxy recording (missing version 1 header)', file);
+  }
+
+  const events = records.filter((record): record is RecordingEvent =>
+    ['input', 'write', 'mode', 'keyboard'].includes(record.type) &&
+    typeof record.t === 'number'
+  );
+
+  return { header, events };
+}
+
+/**
+ * Factory function for creating a session recorder
+ */
+export function createSessionRecorder(
+  file: string,
+  header: Omit<RecordingHeader, 'type' | 'version' | 'startedAt' | 'omitted'>
+): SessionRecorder {
+  return new SessionRecorder(file, header);
+}
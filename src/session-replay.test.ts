@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createFakePtyFactory } from './fake-pty';
+import { Recording, RecordingEvent, readRecording } from './session-recorder';
+import { formatReplayReport, replaySession } from './session-replay';
+import { TerminalIMEProxy, TerminalIMEProxyOptions } from './terminal-ime-proxy';
+
+let dir: string;
+let file: string;
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function hex(text: string): string {
+  return Buffer.from(text, 'utf8').toString('hex');
+}
+
+function recording(events: RecordingEvent[], settings: Recording['header']['settings'] = {}): Recording {
+  return {
+    header: { type: 'header', version: 1, command: ['app'], settings, cols: 80, rows: 24, startedAt: '' },
+    events,
+  };
+}
+
+/**
+ * Run a proxy on a fake pty with recording on, feed it chunks, and read
+ * the recording back
+ */
+async function record(
+  options: Partial<TerminalIMEProxyOptions>,
+  play: (input: PassThrough, emit: (data: string) => void) => Promise<void>
+): Promise<Recording> {
+  const ptyFactory = createFakePtyFactory();
+  const input = new PassThrough();
+  const output = new PassThrough();
+  output.resume();
+
+  const proxy = new TerminalIMEProxy({ command: 'app', input, output, ptyFactory, recordFile: file, ...options });
+  await play(input, (data) => ptyFactory.last!.emitData(data));
+  await wait(80);
+  proxy.destroy();
+
+  return readRecording(file);
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'timp-replay-'));
+  file = path.join(dir, 'session.jsonl');
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('replaySession', () => {
+  it('reproduces a recorded session byte for byte', async () => {
+    const recorded = await record({ compositionTimeout: 20 }, async (input, emit) => {
+      emit('\x1b[?2004h\x1b[?1004h');
+      input.write('ls\r');
+      await wait(5);
+      input.write('你好');
+      await wait(40);
+      input.write('\x1b[200~pasted\x1b[201~\x1b[O');
+    });
+
+    const result = await replaySession(recorded, { speed: 4 });
+
+    expect(result.expected.map((write) => write.text).join('')).toBe('ls\r你好\x1b[200~pasted\x1b[201~\x1b[O');
+    expect(result.matches).toBe(true);
+    expect(result.firstDifference).toBeNull();
+  });
+
+  it('replays the keyboard protocol the app asked for', async () => {
+    const recorded = await record({ compositionTimeout: 20 }, async (input, emit) => {
+      emit('\x1b[>1u');
+      input.write('\x1b[104u\x1b[13u');
+    });
+
+    const result = await replaySession(recorded, { speed: 4 });
+
+    expect(result.actual.map((write) => write.text).join('')).toBe('\x1b[104u\x1b[13u');
+    expect(result.matches).toBe(true);
+  });
+
+  it('reports where the replayed bytes differ', async () => {
+    const result = await replaySession(recording([
+      { type: 'input', t: 0, bytes: hex('ab') },
+      { type: 'write', t: 0, reason: 'regular', bytes: hex('ac') },
+    ]));
+
+    expect(result.matches).toBe(false);
+    expect(result.firstDifference).toBe(1);
+    expect(formatReplayReport(result)).toContain('Result: output differs at byte 1');
+  });
+
+  it('lets settings override the recorded ones', async () => {
+    const result = await replaySession(recording([
+      { type: 'input', t: 0, bytes: hex('“hi”') },
+    ], { compositionTimeout: 20 }), { settings: { middleware: ['strip-smart-quotes'] } });
+
+    expect(result.actual.map((write) => write.text).join('')).toBe('"hi"');
+  });
+
+  it('suspends on Ctrl+Z only when the recording had job control', async () => {
+    const events: RecordingEvent[] = [{ type: 'input', t: 0, bytes: hex('\x1a') }];
+    const passed = await replaySession(recording(events));
+    const suspended = await replaySession({
+      ...recording(events),
+      header: { ...recording(events).header, jobControl: true },
+    });
+
+    expect(passed.actual.map((write) => write.text)).toEqual(['\x1a']);
+    expect(suspended.actual).toEqual([]);
+  });
+
+  it('rejects a recording whose settings the pipeline cannot use', async () => {
+    const broken = recording([{ type: 'input', t: 0, bytes: hex('a') }], { middleware: [null as never] });
+
+    await expect(replaySession(broken)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Session Replay
+ * Feeds a recording back through the input pipeline with its original
+ * (or scaled) timing and compares what the app would receive
+ */
+
+import { InputPipelineSettings, WriteReason, createInputPipeline } from './input-pipeline';
+import type { KeyboardMode } from './key-protocol';
+import { DEC_MODES, MOUSE_MODES } from './output-monitor';
+import type { Recording } from './session-recorder';
+
+export interface ReplayOptions {
+  /**
+   * Playback speed; 2 replays twice as fast
+   * Default: 1
+   */
+  speed?: number;
+
+  /**
+   * Settings that override the recorded ones
+   */
+  settings?: Partial<InputPipelineSettings>;
+
+  /**
+   * Optional callback for debug logging
+   */
+  onDebug?: (message: string) => void;
+}
+
+export interface ReplayWrite {
+  t: number;
+  reason: WriteReason;
+  text: string;
+}
+
+export interface ReplayResult {
+  /**
+   * Writes from the recording
+   */
+  expected: ReplayWrite[];
+
+  /**
+   * Writes produced by the replay
+   */
+  actual: ReplayWrite[];
+
+  /**
+   * Whether the app would receive exactly the same bytes
+   */
+  matches: boolean;
+
+  /**
+   * Offset of the first differing byte, or null
+   */
+  firstDifference: number | null;
+}
+
+/**
+ * Time in ms to let pending timers fire after the last input
+ */
+const SETTLE_TIME = 300;
+
+/**
+ * Replay a recording
+ */
+export function replaySession(recording: Recording, options: ReplayOptions = {}): Promise<ReplayResult> {
+  const speed = options.speed && options.speed > 0 ? options.speed : 1;
+  const settings: InputPipelineSettings = {
+    ...recording.header.settings,
+    // Never touch the user's learned timings during a replay
+    adaptivePersist: false,
+    ...options.settings,
+  };
+
+  const expected: ReplayWrite[] = [];
+  const actual: ReplayWrite[] = [];
+  const start = Date.now();
+
+  // Terminal modes as the app had set them at each point of the recording
+  const modes = new Set<number>();
+  let keyboard: KeyboardMode = { kittyFlags: 0, modifyOtherKeys: 0 };
+
+  // Ctrl+Z suspended the proxy and wrote nothing to the app
+  const jobControl = options.settings?.jobControl ?? recording.header.jobControl ?? false;
+
+  return new Promise((resolve, reject) => {
+    const pipeline = createInputPipeline({
+      ...settings,
+      onWrite: (text, reason) => actual.push({ t: Date.now() - start, reason, text }),
+      onSuspend: jobControl ? () => options.onDebug?.('[SessionReplay] Ctrl+Z suspended the proxy') : undefined,
+      isBracketedPasteEnabled: () => modes.has(DEC_MODES.bracketedPaste),
+      isFocusReportingEnabled: () => modes.has(DEC_MODES.focusReporting),
+      isMouseReportingEnabled: () => MOUSE_MODES.some((mode) => modes.has(mode)),
+      getKeyboardMode: () => keyboard,
+      onDebug: options.onDebug,
+    });
+
+    // An event the pipeline can't take ends the replay with its error
+    const timers: NodeJS.Timeout[] = [];
+    const fail = (e: unknown) => {
+      timers.forEach(clearTimeout);
+      pipeline.destroy();
+      reject(e);
+    };
+
+    let last = 0;
+
+    for (const event of recording.events) {
+      if (event.type === 'write') {
+        expected.push({ t: event.t, reason: event.reason, text: Buffer.from(event.bytes, 'hex').toString('utf8') });
+        continue;
+      }
+
+      const at = event.t / speed;
+      last = Math.max(last, at);
+
+      timers.push(setTimeout(() => {
+        try {
+          if (event.type === 'input') {
+            pipeline.process(Buffer.from(event.bytes, 'hex'));
+          } else if (event.type === 'keyboard') {
+            keyboard = { kittyFlags: event.kittyFlags, modifyOtherKeys: event.modifyOtherKeys };
+          } else if (event.enabled) {
+            modes.add(event.mode);
+          } else {
+            modes.delete(event.mode);
+          }
+        } catch (e) {
+          fail(e);
+        }
+      }, Math.max(0, at - (Date.now() - start))));
+    }
+
+    timers.push(setTimeout(() => {
+      pipeline.destroy();
+      resolve(compareWrites(expected, actual));
+    }, last + SETTLE_TIME));
+  });
+}
+
+/**
+ * Compare the bytes of two write sequences
+ */
+function compareWrites(expected: ReplayWrite[], actual: ReplayWrite[]): ReplayResult {
+  const a = Buffer.from(expected.map((w) => w.text).join(''), 'utf8');
+  const b = Buffer.from(actual.map((w) => w.text).join(''), 'utf8');
+
+  let firstDifference: number | null = null;
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) {
+      firstDifference = i;
+      break;
+    }
+  }
+
+  return { expected, actual, matches: firstDifference === null, firstDifference };
+}
+
+/**
+ * Human-readable report of a replay
+ */
+export function formatReplayReport(result: ReplayResult): string {
+  const lines: string[] = [];
+  const bytes = (writes: ReplayWrite[]) => Buffer.byteLength(writes.map((w) => w.text).join(''), 'utf8');
+
+  lines.push(`Recorded: ${result.expected.length} write(s), ${bytes(result.expected)} bytes`);
+  lines.push(`Replayed: ${result.actual.length} write(s), ${bytes(result.actual)} bytes`);
+
+  if (result.matches) {
+    lines.push('Result: identical bytes reach the app');
+    return lines.join('\n');
+  }
+
+  lines.push(`Result: output differs at byte ${result.firstDifference}`);
+  lines.push('');
+  lines.push('  #    recorded                            replayed');
+
+  const count = Math.max(result.expected.length, result.actual.length);
+  for (let i = 0; i < count; i++) {
+    const expected = result.expected[i];
+    const actual = result.actual[i];
+    const same = expected && actual && expected.text === actual.text && expected.reason === actual.reason;
+    const marker = same ? ' ' : '!';
+    lines.push(`${marker} ${String(i).padEnd(4)} ${describe(expected).padEnd(35)} ${describe(actual)}`);
+  }
+
+  return lines.join('\n');
+}
+
+function describe(write: ReplayWrite | undefined): string {
+  if (!write) return '-';
+  return `${write.reason} ${JSON.stringify(write.text)}`;
+}
@@ -0,0 +1,91 @@
+import { performance } from 'perf_hooks';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createSessionStats, formatStats } from './session-stats';
+
+let now = 0;
+
+function at(ms: number): void {
+  now = ms;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function create() {
+  now = 0;
+  vi.spyOn(performance, 'now').mockImplementation(() => now);
+  return createSessionStats();
+}
+
+describe('SessionStats', () => {
+  it('measures pass-through delay from receipt to write', () => {
+    const stats = create();
+
+    for (const delay of [1, 2, 3, 10]) {
+      at(100);
+      stats.recordInput();
+      at(100 + delay);
+      stats.recordWrite(true);
+    }
+
+    expect(stats.snapshot().latency.passthrough).toEqual({ count: 4, mean: 4, p50: 3, p95: 10, max: 10 });
+  });
+
+  it('measures IME delay for every chunk held until the commit', () => {
+    const stats = create();
+
+    at(0);
+    stats.recordInput();
+    stats.recordBuffered();
+    at(20);
+    stats.recordInput();
+    stats.recordBuffered();
+    at(70);
+    stats.recordWrite(false);
+
+    expect(stats.snapshot().latency.ime).toMatchObject({ count: 2, mean: 60, max: 70 });
+  });
+
+  it('does not count chunks dropped with the buffer', () => {
+    const stats = create();
+
+    stats.recordInput();
+    stats.recordBuffered();
+    stats.recordClear();
+    stats.recordWrite(false);
+
+    expect(stats.snapshot().latency.ime.count).toBe(0);
+  });
+
+  it('counts commits, absorbed backspaces and the largest buffer', () => {
+    const stats = create();
+
+    stats.recordCommit('chinese', 'timeout');
+    stats.recordCommit('chinese', 'enter');
+    stats.recordCommit(null, 'timeout');
+    stats.recordBackspaces(2);
+    stats.recordBuffer('你好');
+    stats.recordBuffer('a');
+
+    expect(stats.snapshot()).toMatchObject({
+      commits: { total: 3, byLanguage: { chinese: 2, unknown: 1 }, byReason: { timeout: 2, enter: 1 } },
+      absorbedBackspaces: 2,
+      maxBufferLength: 2,
+    });
+  });
+});
+
+describe('formatStats', () => {
+  it('prints a latency table and counts', () => {
+    const stats = create();
+    stats.recordCommit('korean', 'word-boundary');
+    at(65000);
+
+    const report = formatStats(stats.snapshot());
+    expect(report).toContain('Session: 1m 5s');
+    expect(report).toContain('by language: korean 1');
+    expect(report).toContain('Largest buffer: 0 chars');
+    expect(report.split('\n')[1]).toMatch(/Latency\s+count\s+mean\s+p50\s+p95\s+max/);
+  });
+});
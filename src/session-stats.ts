@@ -0,0 +1,239 @@
+/**
+ * Session Statistics
+ * Measures what the proxy costs: the delay it adds between stdin and the
+ * app, for input passed through and for input held for composition, and
+ * what happened to the composition buffer
+ */
+
+import { performance } from 'perf_hooks';
+import { graphemeLength } from './grapheme';
+
+/**
+ * Delays in ms
+ */
+export interface LatencySummary {
+  count: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+/**
+ * Statistics so far
+ */
+export interface SessionStatsSnapshot {
+  startedAt: string;
+  durationMs: number;
+
+  /**
+   * From stdin receipt to the write to the app
+   * - passthrough: input forwarded without buffering
+   * - ime: input held in the composition buffer until committed
+   */
+  latency: {
+    passthrough: LatencySummary;
+    ime: LatencySummary;
+  };
+
+  commits: {
+    total: number;
+    byLanguage: Record<string, number>;
+    byReason: Record<string, number>;
+  };
+
+  /**
+   * Backspaces applied to the composition instead of sent to the app
+   */
+  absorbedBackspaces: number;
+
+  /**
+   * Most characters (grapheme clusters) held in the buffer at once
+   */
+  maxBufferLength: number;
+}
+
+/**
+ * Latency samples kept for percentiles; counts, means and maxima cover
+ * the whole session
+ */
+const MAX_SAMPLES = 10000;
+
+class LatencyRecorder {
+  private samples: number[] = [];
+  private count = 0;
+  private total = 0;
+  private max = 0;
+
+  public record(ms: number): void {
+    this.count++;
+    this.total += ms;
+    this.max = Math.max(this.max, ms);
+    if (this.samples.length === MAX_SAMPLES) {
+      this.samples.shift();
+    }
+    this.samples.push(ms);
+  }
+
+  public summary(): LatencySummary {
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    return {
+      count: this.count,
+      mean: this.count > 0 ? round(this.total / this.count) : 0,
+      p50: round(percentile(sorted, 0.5)),
+      p95: round(percentile(sorted, 0.95)),
+      max: round(this.max),
+    };
+  }
+}
+
+export class SessionStats {
+  private startedAt = new Date();
+  private start = performance.now();
+  private passthrough = new LatencyRecorder();
+  private ime = new LatencyRecorder();
+  private byLanguage: Record<string, number> = {};
+  private byReason: Record<string, number> = {};
+  private commits = 0;
+  private absorbedBackspaces = 0;
+  private maxBufferLength = 0;
+
+  /**
+   * Receipt time of the last stdin chunk, until its pass-through write
+   */
+  private inputTime: number | null = null;
+
+  /**
+   * Receipt times of chunks waiting in the composition buffer
+   */
+  private buffered: number[] = [];
+
+  /**
+   * A stdin chunk arrived
+   */
+  public recordInput(): void {
+    this.inputTime = performance.now();
+  }
+
+  /**
+   * The last chunk was held for composition
+   */
+  public recordBuffered(): void {
+    if (this.inputTime !== null) {
+      this.buffered.push(this.inputTime);
+      this.inputTime = null;
+    }
+  }
+
+  /**
+   * Text reached the app: pass-through input settles the last chunk, any
+   * other write (commits, edits of the composition) the buffered ones
+   */
+  public recordWrite(passthrough: boolean): void {
+    const now = performance.now();
+
+    if (passthrough) {
+      if (this.inputTime !== null) {
+        this.passthrough.record(now - this.inputTime);
+        this.inputTime = null;
+      }
+      return;
+    }
+
+    for (const time of this.buffered) {
+      this.ime.record(now - time);
+    }
+    this.buffered = [];
+  }
+
+  /**
+   * The composition buffer was dropped without a write
+   */
+  public recordClear(): void {
+    this.buffered = [];
+  }
+
+  public recordCommit(language: string | null, reason: string): void {
+    this.commits++;
+    const key = language ?? 'unknown';
+    this.byLanguage[key] = (this.byLanguage[key] ?? 0) + 1;
+    this.byReason[reason] = (this.byReason[reason] ?? 0) + 1;
+  }
+
+  public recordBackspaces(count: number): void {
+    this.absorbedBackspaces += count;
+  }
+
+  public recordBuffer(text: string): void {
+    this.maxBufferLength = Math.max(this.maxBufferLength, graphemeLength(text));
+  }
+
+  /**
+   * Statistics so far
+   */
+  public snapshot(): SessionStatsSnapshot {
+    return {
+      startedAt: this.startedAt.toISOString(),
+      durationMs: Math.round(performance.now() - this.start),
+      latency: {
+        passthrough: this.passthrough.summary(),
+        ime: this.ime.summary(),
+      },
+      commits: {
+        total: this.commits,
+        byLanguage: { ...this.byLanguage },
+        byReason: { ...this.byReason },
+      },
+      absorbedBackspaces: this.absorbedBackspaces,
+      maxBufferLength: this.maxBufferLength,
+    };
+  }
+}
+
+/**
+ * Human-readable summary for the end of a session
+ */
+export function formatStats(stats: SessionStatsSnapshot): string {
+  const row = (label: string, latency: LatencySummary) =>
+    `  ${label.padEnd(14)}${String(latency.count).padStart(7)}`
+    + [latency.mean, latency.p50, latency.p95, latency.max].map((ms) => `${ms.toFixed(1)}ms`.padStart(10)).join('');
+  const counts = (record: Record<string, number>) =>
+    Object.entries(record)
+      .sort(([, a], [, b]) => b - a)
+      .map(([key, count]) => `${key} ${count}`)
+      .join(', ') || 'none';
+
+  return [
+    `Session: ${formatDuration(stats.durationMs)}`,
+    `  ${'Latency'.padEnd(14)}${'count'.padStart(7)}${['mean', 'p50', 'p95', 'max'].map((h) => h.padStart(10)).join('')}`,
+    row('pass-through', stats.latency.passthrough),
+    row('IME', stats.latency.ime),
+    `  Commits: ${stats.commits.total}`,
+    `    by language: ${counts(stats.commits.byLanguage)}`,
+    `    by reason: ${counts(stats.commits.byReason)}`,
+    `  Backspaces absorbed: ${stats.absorbedBackspaces}`,
+    `  Largest buffer: ${stats.maxBufferLength} chars`,
+  ].join('\n');
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+function round(ms: number): number {
+  return Math.round(ms * 100) / 100;
+}
+
+/**
+ * Factory function for creating session statistics
+ */
+export function createSessionStats(): SessionStats {
+  return new SessionStats();
+}
@@ -0,0 +1,442 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PASTE_END, PASTE_START } from './bracketed-paste';
+import { ConfigError } from './config';
+import { createFakePtyFactory, FakePty } from './fake-pty';
+import { RecordingError } from './session-recorder';
+import { TerminalIMEProxy, TerminalIMEProxyOptions } from './terminal-ime-proxy';
+
+interface Harness {
+  proxy: TerminalIMEProxy;
+  pty: FakePty;
+  input: PassThrough;
+  output: PassThrough;
+}
+
+let proxies: TerminalIMEProxy[] = [];
+
+function createProxy(options: Partial<TerminalIMEProxyOptions> = {}): Harness {
+  const ptyFactory = createFakePtyFactory();
+  const input = new PassThrough();
+  const output = new PassThrough();
+  output.resume();
+
+  const proxy = new TerminalIMEProxy({
+    command: 'app',
+    input,
+    output,
+    ptyFactory,
+    compositionTimeout: 20,
+    ...options,
+  });
+  proxies.push(proxy);
+  return { proxy, pty: ptyFactory.last!, input, output };
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Type input and wait past the composition timeout
+ */
+async function type(harness: Harness, ...chunks: Array<string | Buffer>): Promise<void> {
+  for (const chunk of chunks) {
+    harness.input.write(chunk);
+    await wait(1);
+  }
+  await wait(60);
+}
+
+afterEach(() => {
+  for (const proxy of proxies) {
+    proxy.destroy();
+  }
+  proxies = [];
+});
+
+describe('TerminalIMEProxy', () => {
+  it('spawns the command on the pty', () => {
+    const { pty } = createProxy({ args: ['--flag'], cols: 100, rows: 30 });
+
+    expect(pty.file).toBe('app');
+    expect(pty.args).toEqual(['--flag']);
+    expect([pty.cols, pty.rows]).toEqual([100, 30]);
+  });
+
+  it('forwards plain typing and keys', async () => {
+    const harness = createProxy();
+
+    await type(harness, 'ls -l\r', '\x1b[A');
+
+    expect(harness.pty.written).toBe('ls -l\r\x1b[A');
+  });
+
+  it('commits IME text once the composition times out', async () => {
+    const harness = createProxy({ compositionTimeout: 40 });
+
+    harness.input.write('你好');
+    await wait(10);
+    expect(harness.pty.written).toBe('');
+
+    await wait(80);
+    expect(harness.pty.written).toBe('你好');
+  });
+
+  it('commits the composition before a key that ends it', async () => {
+    const harness = createProxy({ compositionTimeout: 1000 });
+
+    await type(harness, '你好', '\r');
+
+    expect(harness.pty.written).toBe('你好\r');
+  });
+
+  it('writes app output to the output stream', async () => {
+    const harness = createProxy();
+    const chunks: string[] = [];
+    harness.output.on('data', (chunk: Buffer) => chunks.push(chunk.toString()));
+
+    harness.pty.emitData('hello');
+    await wait(1);
+
+    expect(chunks.join('')).toContain('hello');
+  });
+
+  it('resolves exited when the app exits', async () => {
+    const { proxy, pty } = createProxy();
+
+    pty.emitExit(3);
+
+    await expect(proxy.exited).resolves.toMatchObject({ exitCode: 3 });
+  });
+});
+
+describe('TerminalIMEProxy IME edits', () => {
+  it('sends a backspace-and-replace edit as one net write', async () => {
+    const harness = createProxy();
+
+    await type(harness, 'chao', '\x7f\x7f', '\x7fhào');
+
+    expect(harness.pty.writes).toEqual(['chao', '\x7f\x7fào']);
+  });
+});
+
+describe('TerminalIMEProxy paste', () => {
+  it('forwards a paste to an app without bracketed paste as typed text', async () => {
+    const harness = createProxy();
+
+    await type(harness, `${PASTE_START}你好\rworld${PASTE_END}`);
+
+    expect(harness.pty.written).toBe('你好\rworld');
+  });
+
+  it('wraps a paste for an app that enabled bracketed paste', async () => {
+    const harness = createProxy();
+    harness.pty.emitData('\x1b[?2004h');
+
+    await type(harness, `${PASTE_START}你好${PASTE_END}`);
+
+    expect(harness.pty.written).toBe(`${PASTE_START}你好${PASTE_END}`);
+  });
+
+  it('releases a paste that never ends after the paste timeout', async () => {
+    const harness = createProxy({ pasteTimeout: 30 });
+
+    await type(harness, `${PASTE_START}lost`);
+    await type(harness, 'x');
+
+    expect(harness.pty.written).toBe('lostx');
+  });
+});
+
+describe('TerminalIMEProxy UTF-8 input', () => {
+  it('decodes characters split across input chunks', async () => {
+    const harness = createProxy();
+    const bytes = Buffer.from('a你', 'utf8');
+
+    await type(harness, bytes.subarray(0, 2), bytes.subarray(2));
+
+    expect(harness.pty.written).toBe('a你');
+  });
+
+  it('writes a character cut off by the end of input as replacement characters', async () => {
+    const harness = createProxy();
+
+    await type(harness, Buffer.from('a你', 'utf8').subarray(0, 3));
+    harness.proxy.destroy();
+
+    expect(harness.pty.written).toBe('a\ufffd\ufffd');
+  });
+});
+
+describe('TerminalIMEProxy normalization', () => {
+  it('writes a letter held for combining marks when destroyed', async () => {
+    vi.useFakeTimers();
+    try {
+      const harness = createProxy({ normalization: 'nfc' });
+      harness.input.write('viê\u0323t');
+      await vi.advanceTimersByTimeAsync(30);
+      expect(harness.pty.written).toBe('việ');
+
+      harness.proxy.destroy();
+      expect(harness.pty.written).toBe('việt');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('writes plain typing without holding its last letter', async () => {
+    vi.useFakeTimers();
+    try {
+      const harness = createProxy({ normalization: 'nfc' });
+      harness.input.write('ls');
+      await vi.advanceTimersByTimeAsync(1);
+
+      expect(harness.pty.written).toBe('ls');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('TerminalIMEProxy Vietnamese engine', () => {
+  it('composes Vietnamese with the Telex engine', async () => {
+    const harness = createProxy({ engine: 'telex' });
+
+    await type(harness, 'tieengs vieetj ');
+
+    expect(harness.pty.written).toBe('tiếng việt ');
+  });
+});
+
+describe('TerminalIMEProxy Hangul engine', () => {
+  it('composes Korean with the Hangul engine', async () => {
+    const harness = createProxy({ engine: 'hangul' });
+
+    await type(harness, 'gksrmf ');
+
+    expect(harness.pty.written).toBe('한글 ');
+  });
+});
+
+describe('TerminalIMEProxy events', () => {
+  it('reports compositions, commits before middleware and passthrough', async () => {
+    const harness = createProxy({ middleware: [(text, { source }) => (source === 'commit' ? `[${text}]` : text)] });
+    const events: unknown[] = [];
+    harness.proxy.on('composition-start', (event) => events.push(['start', event]));
+    harness.proxy.on('commit', (event) => events.push(['commit', event]));
+    harness.proxy.on('passthrough', (event) => events.push(['passthrough', event]));
+
+    await type(harness, '你好', '\r');
+
+    expect(events).toEqual([
+      ['start', { text: '你好', language: 'chinese' }],
+      ['commit', { text: '你好', language: 'chinese', reason: 'enter' }],
+      ['passthrough', { text: '\r', reason: 'key' }],
+    ]);
+    expect(harness.pty.written).toBe('[你好]\r');
+  });
+});
+
+describe('TerminalIMEProxy middleware', () => {
+  it('keeps writes in order behind an async middleware', async () => {
+    const harness = createProxy({
+      compositionTimeout: 1000,
+      middleware: [
+        (text, context) => (context.source === 'commit' ? wait(30).then(() => `[${text}]`) : text),
+      ],
+    });
+
+    await type(harness, '你好', '\r');
+
+    expect(harness.pty.written).toBe('[你好]\r');
+  });
+});
+
+describe('TerminalIMEProxy key protocols', () => {
+  it('passes key events through as the terminal reported them', async () => {
+    const harness = createProxy();
+    harness.pty.emitData('\x1b[>1u');
+
+    await type(harness, '\x1b[104u\x1b[105u\x1b[13u');
+
+    expect(harness.pty.written).toBe('\x1b[104u\x1b[105u\x1b[13u');
+  });
+
+  it('composes IME text typed between key events', async () => {
+    const harness = createProxy({ compositionTimeout: 1000 });
+    harness.pty.emitData('\x1b[>1u');
+
+    await type(harness, '你好', '\x1b[13u');
+
+    expect(harness.pty.written).toBe('你好\x1b[13u');
+  });
+});
+
+describe('TerminalIMEProxy focus and mouse reports', () => {
+  it('drops mouse reports the app did not enable', async () => {
+    const harness = createProxy();
+
+    await type(harness, '\x1b[<0;5;5M');
+
+    expect(harness.pty.written).toBe('');
+  });
+
+  it('commits the composition before a mouse press', async () => {
+    const harness = createProxy({ compositionTimeout: 1000 });
+    harness.pty.emitData('\x1b[?1000h\x1b[?1006h');
+
+    await type(harness, '你', '\x1b[<0;5;5M', '\x1b[<0;5;5m');
+
+    expect(harness.pty.written).toBe('你\x1b[<0;5;5M\x1b[<0;5;5m');
+  });
+
+  it('commits or discards the composition on focus out', async () => {
+    const committing = createProxy({ compositionTimeout: 1000 });
+    committing.pty.emitData('\x1b[?1004h');
+    await type(committing, '你', '\x1b[O');
+
+    const discarding = createProxy({ compositionTimeout: 1000, focusOut: 'discard' });
+    await type(discarding, '你', '\x1b[O');
+
+    expect(committing.pty.written).toBe('你\x1b[O');
+    expect(discarding.pty.written).toBe('');
+  });
+});
+
+describe('TerminalIMEProxy logging', () => {
+  it('reports a log file it cannot open as a config error, before spawning', () => {
+    const ptyFactory = createFakePtyFactory();
+
+    expect(() => new TerminalIMEProxy({
+      command: 'app',
+      input: new PassThrough(),
+      output: new PassThrough(),
+      ptyFactory,
+      logFile: '/nonexistent/dir/trace.log',
+    })).toThrow(new ConfigError('cannot open log file (ENOENT)', '/nonexistent/dir/trace.log'));
+    expect(ptyFactory.instances).toHaveLength(0);
+  });
+});
+
+describe('TerminalIMEProxy recording', () => {
+  it('reports a recording it cannot create before spawning', () => {
+    const ptyFactory = createFakePtyFactory();
+
+    expect(() => new TerminalIMEProxy({
+      command: 'app',
+      input: new PassThrough(),
+      output: new PassThrough(),
+      ptyFactory,
+      recordFile: '/nonexistent/dir/session.jsonl',
+    })).toThrow(new RecordingError('cannot create recording (ENOENT)', '/nonexistent/dir/session.jsonl'));
+    expect(ptyFactory.instances).toHaveLength(0);
+  });
+});
+
+describe('TerminalIMEProxy control socket', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reports a control socket it cannot open on stderr without --debug', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const controlSocket = path.join(os.tmpdir(), 'timp-missing-dir', 'timp.sock');
+
+    createProxy({ controlSocket });
+    await wait(50);
+
+    expect(error).toHaveBeenCalledWith(expect.stringMatching(/^\[terminal-ime-proxy\] control socket: .*timp\.sock/));
+  });
+
+  it('commits text sent to the control socket', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'timp-proxy-'));
+    const controlSocket = path.join(dir, 'timp.sock');
+    try {
+      const harness = createProxy({ controlSocket });
+      await wait(20);
+
+      await new Promise<void>((resolve) => {
+        const client = net.connect(controlSocket, () => client.write('{"command":"commit","text":"xin chào"}\n'));
+        client.on('data', () => {
+          client.end();
+          resolve();
+        });
+      });
+
+      expect(harness.pty.written).toBe('xin chào');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('TerminalIMEProxy job control', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('suspends the app and itself on Ctrl+Z, committing the composition first', async () => {
+    const stop = vi.spyOn(process, 'kill').mockImplementation(() => true);
+    const harness = createProxy({ handleSignals: true, jobControl: true, compositionTimeout: 1000 });
+
+    await type(harness, '你好', '\x1a');
+
+    expect(harness.pty.written).toBe('你好');
+    expect(harness.pty.signals).toEqual(['SIGTSTP']);
+    expect(stop).toHaveBeenCalledWith(process.pid, 'SIGSTOP');
+  });
+
+  it('resumes the app and has it redraw on SIGCONT', () => {
+    vi.spyOn(process, 'kill').mockImplementation(() => true);
+    const harness = createProxy({ handleSignals: true, jobControl: true });
+
+    process.emit('SIGCONT', 'SIGCONT');
+
+    expect(harness.pty.signals).toEqual(['SIGCONT', 'SIGWINCH']);
+  });
+
+  it('passes Ctrl+Z to the app without job control', async () => {
+    const stop = vi.spyOn(process, 'kill').mockImplementation(() => true);
+    const harness = createProxy({ handleSignals: true });
+
+    await type(harness, '\x1a');
+
+    expect(harness.pty.written).toBe('\x1a');
+    expect(stop).not.toHaveBeenCalled();
+  });
+
+  it('forwards SIGTERM and kills an app that outlives the timeout', async () => {
+    const harness = createProxy({ handleSignals: true, killTimeout: 10 });
+    const kill = harness.pty.kill.bind(harness.pty);
+    vi.spyOn(harness.pty, 'kill').mockImplementation((signal) => {
+      // The app ignores SIGTERM
+      if (signal !== 'SIGTERM') kill(signal);
+      else harness.pty.signals.push(signal);
+    });
+
+    process.emit('SIGTERM', 'SIGTERM');
+    await wait(30);
+
+    expect(harness.pty.signals.slice(0, 2)).toEqual(['SIGTERM', 'SIGKILL']);
+    await expect(harness.proxy.exited).resolves.toMatchObject({ signal: 9 });
+  });
+});
+
+describe('TerminalIMEProxy statistics', () => {
+  it('counts commits and latency for the session', async () => {
+    const harness = createProxy();
+
+    await type(harness, 'ls', '你好', '\r');
+
+    const stats = harness.proxy.getStats();
+    expect(stats.commits).toEqual({ total: 1, byLanguage: { chinese: 1 }, byReason: { enter: 1 } });
+    expect(stats.latency.passthrough.count).toBe(2);
+    expect(stats.latency.ime.count).toBe(1);
+    expect(stats.maxBufferLength).toBe(2);
+  });
+});
@@ -0,0 +1,892 @@
+/**
+ * Terminal IME Proxy
+ * 
+ * Wraps a terminal CLI application and fixes IME input handling
+ * for Vietnamese, Chinese, Japanese, Korean, and other languages.
+ */
+
+import * as tty from 'tty';
+import { EventEmitter } from 'events';
+import { Language, ScriptName, ScriptPolicy } from './ime-detector';
+import { PasteMode } from './bracketed-paste';
+import { InvalidBytePolicy } from './utf8-decoder';
+import { NormalizationMode } from './normalizer';
+import { InputEngineName } from './input-engine';
+import { ToneStyle } from './vietnamese-engine';
+import { PreeditRenderer, PreeditStyle, createPreeditRenderer } from './preedit-renderer';
+import { Middleware } from './middleware';
+import { FocusOutAction } from './terminal-reports';
+import { CommitStrategy, CommitStrategyName } from './commit-strategy';
+import { ControlCommand, ControlReply, ControlSocket, createControlSocket } from './control-socket';
+import { ConfigError, validateSetting } from './config';
+import { Logger, LogLevel, createLogger } from './logger';
+import { graphemeLength } from './grapheme';
+import { SessionStats, SessionStatsSnapshot, createSessionStats } from './session-stats';
+import { InputPipeline, WriteReason, createInputPipeline } from './input-pipeline';
+import { OutputMonitor, DEC_MODES, createOutputMonitor } from './output-monitor';
+import { CursorTracker, createCursorTracker } from './cursor-tracker';
+import { SessionRecorder, createSessionRecorder } from './session-recorder';
+import { PtyFactory, PtyProcess, nodePtyFactory } from './pty';
+import type { ProxyEventName, ProxyEvents } from './proxy-events';
+
+export interface TerminalIMEProxyOptions {
+  /**
+   * Command to run
+   */
+  command: string;
+  
+  /**
+   * Command arguments
+   */
+  args?: string[];
+  
+  /**
+   * Working directory
+   */
+  cwd?: string;
+  
+  /**
+   * Environment variables
+   */
+  env?: NodeJS.ProcessEnv;
+  
+  /**
+   * Composition timeout in ms (default: 50)
+   */
+  compositionTimeout?: number;
+  
+  /**
+   * Learn the composition timeout from typing rhythm, per language
+   * (default: false)
+   */
+  adaptiveTimeout?: boolean;
+  
+  /**
+   * Percentile of IME chunk gaps used as the learned timeout, 0-1
+   * (default: 0.95)
+   */
+  adaptivePercentile?: number;
+  
+  /**
+   * Lower bound for the learned timeout in ms (default: 20)
+   */
+  adaptiveMinTimeout?: number;
+  
+  /**
+   * Upper bound for the learned timeout in ms (default: 200)
+   */
+  adaptiveMaxTimeout?: number;
+  
+  /**
+   * Keep learned timings between sessions (default: false)
+   */
+  adaptivePersist?: boolean;
+  
+  /**
+   * File for learned timings
+   * (default: ~/.local/state/terminal-ime-proxy/timing.json)
+   */
+  adaptiveStateFile?: string;
+  
+  /**
+   * When buffered IME text is committed: timer, script-complete,
+   * word-boundary, hybrid or a custom strategy (default: timer)
+   */
+  commitStrategy?: CommitStrategyName | CommitStrategy;
+  
+  /**
+   * Time in ms to wait for replacement text after a chunk of
+   * backspaces (default: 15, 0 disables cross-chunk edits)
+   */
+  editWindow?: number;
+  
+  /**
+   * How pasted text is transformed: raw, normalize or strip (default: raw)
+   */
+  pasteMode?: PasteMode;
+  
+  /**
+   * Time in ms without input after which a paste whose end marker never
+   * came is released and typing goes through again (default: 1000)
+   */
+  pasteTimeout?: number;
+  
+  /**
+   * Time in ms to wait after ESC before treating it as the Escape key
+   * (default: 25)
+   */
+  escapeTimeout?: number;
+  
+  /**
+   * Handling of invalid UTF-8 bytes on stdin: replace with U+FFFD or drop
+   * (default: replace)
+   */
+  invalidBytes?: InvalidBytePolicy;
+  
+  /**
+   * Unicode normalization of committed and regular text:
+   * none, nfc, nfd or nfkc (default: none)
+   */
+  normalization?: NormalizationMode;
+  
+  /**
+   * Built-in input method: telex, vni, viqr or hangul (default: none)
+   * Ctrl+^ switches it on and off
+   */
+  engine?: InputEngineName;
+  
+  /**
+   * Tone placement for the built-in engine: old (hòa) or new (hoà)
+   * (default: old)
+   */
+  toneStyle?: ToneStyle;
+  
+  /**
+   * Draw the text being composed at the cursor (default: false)
+   */
+  preedit?: boolean;
+  
+  /**
+   * Highlight of the drawn pre-edit: underline or reverse
+   * (default: underline)
+   */
+  preeditStyle?: PreeditStyle;
+  
+  /**
+   * Key that opens the control menu, such as C-] or none (default: C-])
+   */
+  prefixKey?: string;
+  
+  /**
+   * Unix socket path to accept commands on (commit, flush, clear, status,
+   * set), one JSON object per line
+   */
+  controlSocket?: string;
+  
+  /**
+   * What happens to a pending composition when the terminal loses focus:
+   * commit or discard (default: commit)
+   */
+  focusOut?: FocusOutAction;
+  
+  /**
+   * Middlewares applied, in order, to text before it reaches the app:
+   * built-in names (snippets, halfwidth-punctuation, strip-smart-quotes),
+   * paths of JS modules exporting a middleware, or functions
+   */
+  middleware?: Array<string | Middleware>;
+  
+  /**
+   * Trigger to expansion map for the snippets middleware
+   */
+  snippets?: Record<string, string>;
+  
+  /**
+   * Languages whose input is forwarded immediately instead of buffered
+   * (same as a passthrough policy for their scripts)
+   */
+  passthroughLanguages?: Language[];
+  
+  /**
+   * Policy per script: buffer, passthrough or commit (default: buffer)
+   */
+  scripts?: Partial<Record<ScriptName, ScriptPolicy>>;
+  
+  /**
+   * Scripts not detected as IME input at all
+   */
+  disabledScripts?: ScriptName[];
+  
+  /**
+   * Ctrl+Z suspends the proxy and the app like a shell job, when handling
+   * signals; otherwise Ctrl+Z goes to the app, which may bind it itself
+   * (default: false)
+   */
+  jobControl?: boolean;
+  
+  /**
+   * Time in ms the app gets to exit after a forwarded SIGHUP or SIGTERM
+   * before it is killed (default: 3000)
+   */
+  killTimeout?: number;
+  
+  /**
+   * Enable debug mode
+   */
+  debug?: boolean;
+  
+  /**
+   * Write trace records to this file as JSON lines instead of printing
+   * debug output over the app (turns debug on unless debug is false)
+   */
+  logFile?: string;
+  
+  /**
+   * Least important level logged: error, warn, info, debug or trace
+   * (default: debug)
+   */
+  logLevel?: LogLevel;
+  
+  /**
+   * Log the length of typed text instead of the text (default: false)
+   */
+  logRedact?: boolean;
+  
+  /**
+   * Size in bytes at which the log file is rotated (default: 10 MiB)
+   */
+  logMaxSize?: number;
+  
+  /**
+   * Rotated log files kept (default: 3)
+   */
+  logMaxFiles?: number;
+  
+  /**
+   * Terminal columns (default: auto-detect)
+   */
+  cols?: number;
+  
+  /**
+   * Terminal rows (default: auto-detect)
+   */
+  rows?: number;
+  
+  /**
+   * Print latency and commit statistics when the app exits (CLI)
+   */
+  stats?: boolean;
+  
+  /**
+   * Write the statistics to this file as JSON when the app exits (CLI)
+   */
+  statsFile?: string;
+  
+  /**
+   * Record stdin and writes to the app to this file for replay
+   */
+  recordFile?: string;
+  
+  /**
+   * Stream to read keyboard input from (default: process.stdin)
+   * Raw mode is enabled if it is a TTY
+   */
+  input?: NodeJS.ReadableStream;
+  
+  /**
+   * Stream to write the app's output to (default: process.stdout)
+   * Its size and resize events are followed if it is a TTY
+   */
+  output?: NodeJS.WritableStream;
+  
+  /**
+   * Pseudo-terminal backend (default: node-pty)
+   */
+  ptyFactory?: PtyFactory;
+  
+  /**
+   * Install SIGINT/SIGTERM/SIGHUP, job control and exit handlers on the
+   * process (default: true unless input or output streams are given)
+   */
+  handleSignals?: boolean;
+}
+
+/**
+ * Options that only make sense when constructing a proxy in code
+ */
+export type RuntimeOptionKey = 'recordFile' | 'input' | 'output' | 'ptyFactory' | 'handleSignals';
+
+/**
+ * Settings setOption() can change while running
+ */
+const LIVE_OPTIONS = ['compositionTimeout', 'engine', 'normalization', 'debug', 'buffering'];
+
+/**
+ * How the wrapped app exited
+ */
+export interface ProxyExit {
+  exitCode: number;
+  signal?: number;
+}
+
+/**
+ * Typed listeners for the events in ProxyEvents
+ */
+export interface TerminalIMEProxy {
+  on<E extends ProxyEventName>(event: E, listener: ProxyEvents[E]): this;
+  once<E extends ProxyEventName>(event: E, listener: ProxyEvents[E]): this;
+  off<E extends ProxyEventName>(event: E, listener: ProxyEvents[E]): this;
+  emit<E extends ProxyEventName>(event: E, ...args: Parameters<ProxyEvents[E]>): boolean;
+}
+
+export class TerminalIMEProxy extends EventEmitter {
+  /**
+   * Resolves when the wrapped app exits
+   */
+  public readonly exited: Promise<ProxyExit>;
+  
+  private pty: PtyProcess;
+  private input: NodeJS.ReadableStream;
+  private output: NodeJS.WritableStream;
+  private inputPipeline: InputPipeline;
+  private outputMonitor: OutputMonitor;
+  private cursorTracker: CursorTracker;
+  private preedit: PreeditRenderer | null = null;
+  private menu: PreeditRenderer;
+  private isMenuOpen = false;
+  private isComposing = false;
+  private logger: Logger;
+  private recorder: SessionRecorder | null = null;
+  private controlSocket: ControlSocket | null = null;
+  private stats: SessionStats = createSessionStats();
+  private options: TerminalIMEProxyOptions;
+  private isDestroyed: boolean = false;
+  private resolveExit: (exit: ProxyExit) => void;
+  private cleanups: Array<() => void> = [];
+  private killTimer: NodeJS.Timeout | null = null;
+  
+  constructor(options: TerminalIMEProxyOptions) {
+    super();
+    this.options = options;
+    try {
+      this.logger = createLogger({
+        file: options.logFile,
+        level: options.logLevel,
+        redact: options.logRedact,
+        maxSize: options.logMaxSize,
+        maxFiles: options.logMaxFiles,
+        verbose: options.debug ?? options.logFile !== undefined,
+      });
+    } catch (e) {
+      const code = (e as NodeJS.ErrnoException).code;
+      throw new ConfigError(`cannot open log file (${code ?? (e as Error).message})`, options.logFile!);
+    }
+    this.input = options.input ?? process.stdin;
+    this.output = options.output ?? process.stdout;
+    this.exited = new Promise((resolve) => {
+      this.resolveExit = resolve;
+    });
+    
+    const {
+      command, args, cwd, env, cols, rows,
+      recordFile, input, output, ptyFactory, handleSignals,
+      ...settings
+    } = options;
+    
+    // Show the pending composition at the cursor
+    if (options.preedit) {
+      this.preedit = createPreeditRenderer({
+        style: options.preeditStyle,
+        write: (data) => this.output.write(data),
+        getColumns: () => this.outputSize().cols,
+        getCursorColumn: () => this.cursorTracker.getColumn(),
+        isAutoWrapEnabled: () => this.outputMonitor.isModeEnabled(DEC_MODES.autoWrap),
+        canDraw: () => this.canDraw() && !this.isMenuOpen,
+        onDebug: (msg) => this.debug(msg),
+      });
+    }
+    
+    // The control menu is drawn the same way, over the pre-edit
+    this.menu = createPreeditRenderer({
+      style: 'reverse',
+      truncate: 'end',
+      write: (data) => this.output.write(data),
+      getColumns: () => this.outputSize().cols,
+      getCursorColumn: () => this.cursorTracker.getColumn(),
+      isAutoWrapEnabled: () => this.outputMonitor.isModeEnabled(DEC_MODES.autoWrap),
+      canDraw: () => this.canDraw(),
+    });
+    
+    // Job control needs the process signal handlers
+    const signalsHandled = handleSignals ?? (input === undefined && output === undefined);
+    const jobControl = signalsHandled && options.jobControl === true;
+    
+    // Everything between stdin and the app
+    this.inputPipeline = createInputPipeline({
+      ...settings,
+      onWrite: (text, reason) => this.sendToApp(text, reason),
+      onPreedit: (text, language) => this.updateComposition(text, language),
+      onCommit: (text, language, reason) => {
+        this.logger.log('debug', 'buffer', 'commit', { text, language, decision: reason });
+        this.stats.recordCommit(language, reason);
+        this.emit('commit', { text, language, reason });
+      },
+      onDetect: (text, language, decision) => {
+        this.logger.log('debug', 'detector', 'detect', { text, language, decision });
+      },
+      onAbsorbedBackspaces: (count) => this.stats.recordBackspaces(count),
+      onSuspend: jobControl ? () => this.suspend() : undefined,
+      onMenu: (text) => this.showMenu(text),
+      onDebugChange: (enabled) => this.logger.setVerbose(enabled),
+      isBracketedPasteEnabled: () => this.outputMonitor.isModeEnabled(DEC_MODES.bracketedPaste),
+      isFocusReportingEnabled: () => this.outputMonitor.isModeEnabled(DEC_MODES.focusReporting),
+      isMouseReportingEnabled: () => this.outputMonitor.isMouseReportingEnabled(),
+      getKeyboardMode: () => this.outputMonitor.getKeyboardMode(),
+      onDebug: (msg) => this.debug(msg),
+    });
+    
+    // Track terminal modes requested by the app
+    this.outputMonitor = createOutputMonitor({
+      onModeChange: (mode, enabled) => this.recorder?.recordMode(mode, enabled),
+      onKeyboardModeChange: (mode) => this.recorder?.recordKeyboardMode(mode),
+      onDebug: (msg) => this.debug(msg),
+    });
+    
+    // Follow the cursor, for drawing at it
+    this.cursorTracker = createCursorTracker({
+      getColumns: () => this.outputSize().cols,
+      isAutoWrapEnabled: () => this.outputMonitor.isModeEnabled(DEC_MODES.autoWrap),
+    });
+    
+    // Open the recording first, so a bad path fails before the app starts
+    const size = this.appSize();
+    if (recordFile) {
+      try {
+        this.recorder = createSessionRecorder(recordFile, {
+          command: [command, ...(args ?? [])],
+          settings,
+          jobControl,
+          cols: size.cols,
+          rows: size.rows,
+        });
+      } catch (e) {
+        this.logger.close();
+        throw e;
+      }
+      this.debug(`Recording session to ${recordFile}`);
+    }
+    
+    // Spawn the target application
+    this.pty = this.spawnApp(size);
+    
+    // Commands from other programs
+    if (options.controlSocket) {
+      this.controlSocket = createControlSocket({
+        path: options.controlSocket,
+        onCommand: (command) => this.handleControlCommand(command),
+        onError: (e) => this.reportError('control-socket', `control socket: ${e.message}`),
+        onDebug: (msg) => this.debug(msg),
+      });
+    }
+    
+    // Setup input/output handling
+    this.setupInputHandling();
+    this.setupOutputHandling();
+    if (signalsHandled) {
+      this.setupSignalHandling();
+    }
+    this.setupResizeHandling();
+  }
+  
+  /**
+   * Process id of the wrapped app
+   */
+  public get pid(): number {
+    return this.pty.pid;
+  }
+  
+  /**
+   * Latency and commit statistics so far, to compare settings while
+   * running
+   */
+  public getStats(): SessionStatsSnapshot {
+    return this.stats.snapshot();
+  }
+  
+  /**
+   * Change a setting while running: compositionTimeout, engine (null for
+   * none), normalization, debug or buffering
+   */
+  public setOption(option: string, value: unknown): void {
+    if (!LIVE_OPTIONS.includes(option)) {
+      throw new ConfigError(`"${option}" can't be changed while running (expected: ${LIVE_OPTIONS.join(', ')})`, 'set');
+    }
+    
+    switch (option) {
+      case 'compositionTimeout':
+        this.inputPipeline.setCompositionTimeout(validateSetting(option, value, 'set')!);
+        break;
+      case 'engine':
+        this.inputPipeline.setEngine(value === null ? null : validateSetting(option, value, 'set')!);
+        break;
+      case 'normalization':
+        this.inputPipeline.setNormalization(validateSetting(option, value, 'set')!);
+        break;
+      case 'debug':
+        this.inputPipeline.setDebug(validateSetting(option, value, 'set')!);
+        break;
+      case 'buffering':
+        if (typeof value !== 'boolean') {
+          throw new ConfigError('"buffering" must be true or false', 'set');
+        }
+        this.inputPipeline.setBuffering(value);
+        break;
+    }
+  }
+  
+  /**
+   * Run a command from the control socket
+   */
+  private handleControlCommand(command: ControlCommand): ControlReply | void {
+    switch (command.command) {
+      case 'commit':
+        this.inputPipeline.insert(command.text);
+        break;
+      case 'flush':
+        this.inputPipeline.flush();
+        break;
+      case 'clear':
+        this.inputPipeline.clear();
+        this.stats.recordClear();
+        break;
+      case 'status':
+        return {
+          buffer: this.inputPipeline.getBuffer(),
+          length: graphemeLength(this.inputPipeline.getBuffer()),
+          composing: this.inputPipeline.isComposing(),
+          language: this.inputPipeline.getLanguage(),
+          pid: this.pid,
+          ...this.inputPipeline.getStatus(),
+        };
+      case 'set':
+        this.setOption(command.option, command.value);
+        break;
+    }
+  }
+  
+  /**
+   * Spawn the target application with a pseudo-terminal
+   */
+  private spawnApp({ cols, rows }: { cols: number; rows: number }): PtyProcess {
+    this.logger.log('info', 'proxy', 'spawn', {
+      message: [this.options.command, ...(this.options.args ?? [])].join(' '),
+      cols,
+      rows,
+    });
+    
+    // The app sees the user's terminal type, as it would without the proxy
+    const env = this.options.env ?? process.env;
+    const factory = this.options.ptyFactory ?? nodePtyFactory;
+    return factory.spawn(this.options.command, this.options.args ?? [], {
+      name: env.TERM || 'xterm-256color',
+      cols,
+      rows,
+      cwd: this.options.cwd ?? process.cwd(),
+      env,
+    });
+  }
+  
+  /**
+   * Setup stdin handling with IME detection
+   */
+  private setupInputHandling(): void {
+    // Enable raw mode if available
+    this.setRawMode(true);
+    
+    const onData = (data: Buffer | string) => {
+      if (this.isDestroyed) return;
+      
+      const bytes = typeof data === 'string' ? Buffer.from(data, 'utf8') : data;
+      this.logger.log('trace', 'proxy', 'input', { bytes });
+      this.stats.recordInput();
+      this.recorder?.recordInput(bytes);
+      this.emit('input', bytes);
+      
+      this.inputPipeline.process(bytes);
+    };
+    
+    this.input.on('data', onData);
+    this.input.resume();
+    this.cleanups.push(() => {
+      this.input.removeListener('data', onData);
+      this.input.pause();
+    });
+  }
+  
+  /**
+   * Send text to the wrapped application
+   */
+  private sendToApp(text: string, reason: WriteReason): void {
+    if (!this.isDestroyed) {
+      this.logger.log('debug', 'proxy', 'write', { bytes: text, decision: reason });
+      this.stats.recordWrite(reason === 'regular' || reason === 'key' || reason === 'paste');
+      this.recorder?.recordWrite(text, reason);
+      if (reason !== 'flush') {
+        this.emit('passthrough', { text, reason });
+      }
+      // The drawing goes before the app echoes the text
+      this.preedit?.erase();
+      this.pty.write(text);
+    }
+  }
+  
+  /**
+   * Follow the composition buffer: draw it and emit composition events
+   */
+  private updateComposition(text: string, language: string | null): void {
+    this.logger.log('trace', 'buffer', 'composition', { buffer: text, language });
+    if (text) {
+      this.stats.recordBuffered();
+      this.stats.recordBuffer(text);
+    }
+    this.preedit?.update(text);
+    
+    if (text && !this.isComposing) {
+      this.isComposing = true;
+      this.emit('composition-start', { text, language });
+    } else if (!text) {
+      this.isComposing = false;
+    }
+    this.emit('composition-update', { text, language });
+  }
+  
+  /**
+   * Draw or remove the control menu line
+   */
+  private showMenu(text: string): void {
+    this.isMenuOpen = text !== '';
+    if (this.isMenuOpen) {
+      this.preedit?.erase();
+      this.menu.update(text);
+    } else {
+      this.menu.update('');
+      this.preedit?.draw();
+    }
+  }
+  
+  /**
+   * Whether the proxy may write to the terminal between app output
+   */
+  private canDraw(): boolean {
+    return !this.isDestroyed && !this.outputMonitor.isInSequence();
+  }
+  
+  /**
+   * Setup output handling (app -> terminal)
+   */
+  private setupOutputHandling(): void {
+    this.pty.onData((data: string) => {
+      if (!this.isDestroyed) {
+        this.outputMonitor.scan(data);
+        this.cursorTracker.scan(data);
+        
+        // Redraw the pre-edit and menu where the app left the cursor
+        this.menu.erase();
+        this.preedit?.erase();
+        this.output.write(data);
+        this.menu.draw();
+        this.preedit?.draw();
+      }
+    });
+    
+    this.pty.onExit(({ exitCode, signal }) => {
+      this.logger.log('info', 'proxy', 'exit', { exitCode, signal });
+      this.destroy();
+      this.resolveExit({ exitCode, signal });
+      this.emit('exit', { exitCode, signal });
+    });
+  }
+  
+  /**
+   * Setup signal handling
+   * Signals for the proxy are meant for the app: SIGINT is passed on,
+   * SIGHUP and SIGTERM too, with a SIGKILL if the app outlives
+   * killTimeout; its exit resolves `exited`, which ends the CLI
+   */
+  private setupSignalHandling(): void {
+    const onSigint = () => {
+      this.debug('SIGINT received');
+      this.pty.kill('SIGINT');
+    };
+    
+    const onTerminate = (signal: NodeJS.Signals) => {
+      this.logger.log('info', 'proxy', 'signal', { signal });
+      this.terminate(signal);
+    };
+    
+    // Stopped from outside (kill -TSTP) the same way as with Ctrl+Z
+    const onSigtstp = () => this.suspend();
+    const onSigcont = () => this.resume();
+    
+    const onExit = () => {
+      this.destroy();
+    };
+    
+    process.on('SIGINT', onSigint);
+    process.on('SIGTERM', onTerminate);
+    process.on('SIGHUP', onTerminate);
+    process.on('SIGTSTP', onSigtstp);
+    process.on('SIGCONT', onSigcont);
+    process.on('exit', onExit);
+    this.cleanups.push(() => {
+      process.removeListener('SIGINT', onSigint);
+      process.removeListener('SIGTERM', onTerminate);
+      process.removeListener('SIGHUP', onTerminate);
+      process.removeListener('SIGTSTP', onSigtstp);
+      process.removeListener('SIGCONT', onSigcont);
+      process.removeListener('exit', onExit);
+    });
+  }
+  
+  /**
+   * Pass a terminating signal to the app and kill it if it hasn't exited
+   * after killTimeout
+   */
+  private terminate(signal: NodeJS.Signals): void {
+    this.pty.kill(signal);
+    
+    if (!this.killTimer) {
+      this.killTimer = setTimeout(() => {
+        this.debug('App outlived the grace period, killing it');
+        this.pty.kill('SIGKILL');
+      }, this.options.killTimeout ?? 3000);
+    }
+  }
+  
+  /**
+   * Stop the app and the proxy like a shell job, with the terminal back
+   * in cooked mode for the shell
+   */
+  private suspend(): void {
+    if (this.isDestroyed) return;
+    
+    this.logger.log('info', 'proxy', 'suspend');
+    this.menu.erase();
+    this.preedit?.erase();
+    this.pty.kill('SIGTSTP');
+    this.setRawMode(false);
+    
+    // SIGSTOP, as SIGTSTP would come back to onSigtstp; SIGCONT resumes
+    process.kill(process.pid, 'SIGSTOP');
+  }
+  
+  /**
+   * Continue after a suspend: raw mode again, the app resumed, resized
+   * to the terminal (which may have changed meanwhile) and redrawn
+   */
+  private resume(): void {
+    if (this.isDestroyed) return;
+    
+    this.logger.log('info', 'proxy', 'resume');
+    this.setRawMode(true);
+    this.pty.kill('SIGCONT');
+    
+    const { cols, rows } = this.outputSize();
+    this.pty.resize(cols, rows);
+    // Resizing to the same size sends no SIGWINCH, and the app's screen
+    // may have been overwritten by the shell
+    this.pty.kill('SIGWINCH');
+    this.menu.redraw();
+    this.preedit?.redraw();
+  }
+  
+  /**
+   * Setup terminal resize handling
+   */
+  private setupResizeHandling(): void {
+    const onResize = () => {
+      if (!this.isDestroyed) {
+        const { cols, rows } = this.outputSize();
+        this.logger.log('info', 'proxy', 'resize', { cols, rows });
+        this.pty.resize(cols, rows);
+        this.emit('resize', { cols, rows });
+        this.menu.redraw();
+        this.preedit?.redraw();
+      }
+    };
+    
+    this.output.on('resize', onResize);
+    this.cleanups.push(() => this.output.removeListener('resize', onResize));
+  }
+  
+  /**
+   * Size the app starts with: the cols and rows options, else the output's
+   */
+  private appSize(): { cols: number; rows: number } {
+    const size = this.outputSize();
+    return {
+      cols: this.options.cols ?? size.cols,
+      rows: this.options.rows ?? size.rows,
+    };
+  }
+  
+  /**
+   * Size of the output terminal (80x24 if it isn't one)
+   */
+  private outputSize(): { cols: number; rows: number } {
+    const output = this.output as tty.WriteStream;
+    return {
+      cols: output.columns ?? 80,
+      rows: output.rows ?? 24,
+    };
+  }
+  
+  /**
+   * Switch the input to raw mode and back, if it is a TTY
+   */
+  private setRawMode(enabled: boolean): void {
+    const input = this.input as tty.ReadStream;
+    if (input.isTTY) {
+      input.setRawMode(enabled);
+    }
+  }
+  
+  /**
+   * Cleanup and destroy
+   */
+  public destroy(): void {
+    if (this.isDestroyed) return;
+    
+    this.debug('Destroying proxy');
+    
+    // Cleanup input pipeline first: a letter held for normalization is
+    // still written to the app
+    this.inputPipeline.destroy();
+    this.isDestroyed = true;
+    this.menu.erase();
+    this.preedit?.erase();
+    this.recorder?.close();
+    this.controlSocket?.close();
+    
+    // Detach from streams and the process
+    for (const cleanup of this.cleanups) {
+      cleanup();
+    }
+    this.cleanups = [];
+    
+    // Restore stdin
+    this.setRawMode(false);
+    
+    if (this.killTimer) {
+      clearTimeout(this.killTimer);
+      this.killTimer = null;
+    }
+    
+    // Kill the PTY
+    try {
+      this.pty.kill();
+    } catch (e) {
+      // Ignore errors during cleanup
+    }
+    
+    this.logger.close();
+  }
+  
+  /**
+   * Report an error the user has to know about: on stderr as well, unless
+   * the logger already writes it there
+   */
+  private reportError(component: string, message: string): void {
+    this.logger.log('error', component, 'error', { message });
+    if (this.options.logFile !== undefined || !this.logger.isEnabled('error')) {
+      console.error(`[terminal-ime-proxy] ${message}`);
+    }
+  }
+
+  /**
+   * Debug logging
+   */
+  private debug(message: string): void {
+    this.logger.message('debug', message);
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { parseMouseReport } from './terminal-reports';
+
+describe('parseMouseReport', () => {
+  it('parses SGR presses, releases, motion and wheel', () => {
+    expect(parseMouseReport('\x1b[<0;10;5M')).toEqual({ kind: 'press', button: 0, x: 10, y: 5 });
+    expect(parseMouseReport('\x1b[<2;10;5m')).toEqual({ kind: 'release', button: 2, x: 10, y: 5 });
+    expect(parseMouseReport('\x1b[<32;11;5M')).toEqual({ kind: 'motion', button: 0, x: 11, y: 5 });
+    expect(parseMouseReport('\x1b[<65;1;1M')).toEqual({ kind: 'wheel', button: 1, x: 1, y: 1 });
+  });
+
+  it('parses X10 reports, where a release has no button number', () => {
+    expect(parseMouseReport('\x1b[M !!')).toEqual({ kind: 'press', button: 0, x: 1, y: 1 });
+    expect(parseMouseReport('\x1b[M#!!')).toEqual({ kind: 'release', button: 3, x: 1, y: 1 });
+    expect(parseMouseReport('\x1b[M`!!')).toEqual({ kind: 'wheel', button: 0, x: 1, y: 1 });
+  });
+
+  it('ignores other sequences', () => {
+    expect(parseMouseReport('\x1b[A')).toBeNull();
+    expect(parseMouseReport('\x1b[<0;10M')).toBeNull();
+  });
+});
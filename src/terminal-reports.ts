@@ -0,0 +1,81 @@
+/**
+ * Terminal Reports
+ * Recognises focus and mouse reports the terminal sends on stdin once the
+ * app enabled them, so they can be told apart from keys
+ */
+
+/**
+ * Focus reports (DEC mode 1004)
+ */
+export const FOCUS_IN = '\x1b[I';
+export const FOCUS_OUT = '\x1b[O';
+
+/**
+ * What to do with a pending composition when the terminal loses focus
+ */
+export type FocusOutAction = 'commit' | 'discard';
+
+export const FOCUS_OUT_ACTIONS: readonly FocusOutAction[] = ['commit', 'discard'];
+
+/**
+ * One mouse report
+ * - press: a button went down
+ * - release: a button went up
+ * - motion: the pointer moved (with or without a button held)
+ * - wheel: the wheel scrolled
+ */
+export interface MouseReport {
+  kind: 'press' | 'release' | 'motion' | 'wheel';
+  button: number;
+  x: number;
+  y: number;
+}
+
+const MOTION_BIT = 32;
+const WHEEL_BIT = 64;
+const BUTTON_MASK = 3;
+
+/**
+ * SGR report: CSI < button ; x ; y M (press, motion) or m (release)
+ */
+const SGR_MOUSE_PATTERN = /^\x1b\[<(\d+);(\d+);(\d+)([Mm])$/;
+
+/**
+ * X10/normal report: CSI M followed by three bytes offset by 32
+ */
+const X10_MOUSE_PATTERN = /^\x1b\[M([\s\S])([\s\S])([\s\S])$/;
+
+/**
+ * Parse an SGR (mode 1006) or X10-style mouse report
+ */
+export function parseMouseReport(sequence: string): MouseReport | null {
+  let code: number;
+  let x: number;
+  let y: number;
+  let released: boolean;
+
+  const sgr = SGR_MOUSE_PATTERN.exec(sequence);
+  const x10 = sgr ? null : X10_MOUSE_PATTERN.exec(sequence);
+
+  if (sgr) {
+    code = Number(sgr[1]);
+    x = Number(sgr[2]);
+    y = Number(sgr[3]);
+    released = sgr[4] === 'm';
+  } else if (x10) {
+    code = x10[1].charCodeAt(0) - 32;
+    x = x10[2].charCodeAt(0) - 32;
+    y = x10[3].charCodeAt(0) - 32;
+    // X10 has no button number on release
+    released = (code & (BUTTON_MASK | WHEEL_BIT)) === BUTTON_MASK;
+  } else {
+    return null;
+  }
+
+  const kind = code & MOTION_BIT ? 'motion'
+    : code & WHEEL_BIT ? 'wheel'
+    : released ? 'release'
+    : 'press';
+
+  return { kind, button: code & BUTTON_MASK, x, y };
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { Utf8Decoder } from './utf8-decoder';
+
+describe('Utf8Decoder', () => {
+  it('holds a character split across chunks until it is complete', () => {
+    const decoder = new Utf8Decoder();
+    const bytes = Buffer.from('a你', 'utf8');
+
+    expect(decoder.write(bytes.subarray(0, 2))).toBe('a');
+    expect(decoder.hasPending()).toBe(true);
+    expect(decoder.write(bytes.subarray(2, 3))).toBe('');
+    expect(decoder.write(bytes.subarray(3))).toBe('你');
+    expect(decoder.hasPending()).toBe(false);
+  });
+
+  it('decodes four-byte characters split byte by byte', () => {
+    const decoder = new Utf8Decoder();
+    const text = [...Buffer.from('😀', 'utf8')].map((b) => decoder.write(Buffer.from([b]))).join('');
+
+    expect(text).toBe('😀');
+  });
+
+  it('replaces invalid bytes by default', () => {
+    const decoder = new Utf8Decoder();
+
+    expect(decoder.write(Buffer.from([0x61, 0xff, 0x62]))).toBe('a�b');
+  });
+
+  it('rejects overlong encodings', () => {
+    const decoder = new Utf8Decoder();
+
+    expect(decoder.write(Buffer.from([0xc0, 0xaf]))).toBe('��');
+  });
+
+  it('drops invalid bytes with the drop policy', () => {
+    const decoder = new Utf8Decoder({ invalidBytes: 'drop' });
+
+    expect(decoder.write(Buffer.from([0x61, 0xff, 0x62]))).toBe('ab');
+  });
+
+  it('flushes an incomplete sequence on end', () => {
+    const decoder = new Utf8Decoder();
+    decoder.write(Buffer.from([0xe4, 0xbd]));
+
+    expect(decoder.end()).toBe('��');
+    expect(decoder.hasPending()).toBe(false);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * UTF-8 Decoder
+ * Stateful decoder for stdin chunks: holds back a character split across
+ * two reads instead of turning each half into U+FFFD
+ */
+
+/**
+ * What to do with bytes that are not valid UTF-8
+ * - replace: one U+FFFD per invalid byte
+ * - drop: remove them
+ */
+export type InvalidBytePolicy = 'replace' | 'drop';
+
+export interface Utf8DecoderOptions {
+  /**
+   * Handling of invalid bytes
+   * Default: 'replace'
+   */
+  invalidBytes?: InvalidBytePolicy;
+
+  /**
+   * Optional callback for debug logging
+   */
+  onDebug?: (message: string) => void;
+}
+
+const REPLACEMENT_CHAR = '\uFFFD';
+
+export class Utf8Decoder {
+  private pending: Buffer = Buffer.alloc(0);
+  private options: Required<Omit<Utf8DecoderOptions, 'onDebug'>> & { onDebug?: (msg: string) => void };
+
+  constructor(options: Utf8DecoderOptions = {}) {
+    this.options = {
+      invalidBytes: options.invalidBytes ?? 'replace',
+      onDebug: options.onDebug,
+    };
+  }
+
+  /**
+   * Decode a chunk, holding back an incomplete trailing sequence
+   */
+  public write(data: Buffer): string {
+    const held = this.pending.length;
+    const bytes = held > 0 ? Buffer.concat([this.pending, data]) : data;
+    this.pending = Buffer.alloc(0);
+
+    let result = '';
+    let start = 0; // start of the current run of valid bytes
+    let i = 0;
+
+    while (i < bytes.length) {
+      const length = this.sequenceLength(bytes, i);
+
+      if (length > 0) {
+        if (held > 0 && i < held && i + length > held) {
+          this.debug(`Repaired split sequence: ${this.toHex(bytes.subarray(i, i + length))}`);
+        }
+        i += length;
+        continue;
+      }
+
+      if (length === 0) {
+        // Incomplete at the end of the chunk - wait for the rest
+        result += bytes.toString('utf8', start, i);
+        this.pending = Buffer.from(bytes.subarray(i));
+        this.debug(`Holding ${this.pending.length} byte(s) of a split sequence`);
+        return result;
+      }
+
+      // Invalid byte
+      result += bytes.toString('utf8', start, i);
+      this.debug(`Invalid UTF-8 byte: ${this.toHex(bytes.subarray(i, i + 1))} (${this.options.invalidBytes})`);
+      if (this.options.invalidBytes === 'replace') {
+        result += REPLACEMENT_CHAR;
+      }
+      i++;
+      start = i;
+    }
+
+    return result + bytes.toString('utf8', start, i);
+  }
+
+  /**
+   * Flush held bytes (they can no longer be completed)
+   */
+  public end(): string {
+    if (this.pending.length === 0) return '';
+
+    this.debug(`Dropping incomplete sequence: ${this.toHex(this.pending)}`);
+    const count = this.pending.length;
+    this.pending = Buffer.alloc(0);
+    return this.options.invalidBytes === 'replace' ? REPLACEMENT_CHAR.repeat(count) : '';
+  }
+
+  /**
+   * Check if bytes of a split character are being held
+   */
+  public hasPending(): boolean {
+    return this.pending.length > 0;
+  }
+
+  /**
+   * Length of the valid sequence at `i`
+   * Returns 0 if it is cut off at the end, -1 if it is invalid
+   */
+  private sequenceLength(bytes: Buffer, i: number): number {
+    const lead = bytes[i];
+
+    if (lead < 0x80) return 1;
+
+    let length: number;
+    let min = 0x80;
+    let max = 0xBF;
+
+    if (lead >= 0xC2 && lead <= 0xDF) {
+      length = 2;
+    } else if (lead >= 0xE0 && lead <= 0xEF) {
+      length = 3;
+      if (lead === 0xE0) min = 0xA0;     // overlong
+      if (lead === 0xED) max = 0x9F;     // surrogates
+    } else if (lead >= 0xF0 && lead <= 0xF4) {
+      length = 4;
+      if (lead === 0xF0) min = 0x90;     // overlong
+      if (lead === 0xF4) max = 0x8F;     // above U+10FFFF
+    } else {
+      return -1;
+    }
+
+    for (let k = 1; k < length; k++) {
+      if (i + k >= bytes.length) return 0;
+
+      const byte = bytes[i + k];
+      const lo = k === 1 ? min : 0x80;
+      const hi = k === 1 ? max : 0xBF;
+      if (byte < lo || byte > hi) return -1;
+    }
+
+    return length;
+  }
+
+  /**
+   * Convert buffer to hex string for debugging
+   */
+  private toHex(data: Buffer): string {
+    return data.toString('hex').match(/.{1,2}/g)?.join(' ') ?? '';
+  }
+
+  /**
+   * Debug logging helper
+   */
+  private debug(message: string): void {
+    if (this.options.onDebug) {
+      this.options.onDebug(`[Utf8Decoder] ${message}`);
+    }
+  }
+}
+
+/**
+ * Factory function for creating a UTF-8 decoder
+ */
+export function createUtf8Decoder(options?: Utf8DecoderOptions): Utf8Decoder {
+  return new Utf8Decoder(options);
+}
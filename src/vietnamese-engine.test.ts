@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { ToneStyle, VietnameseEngine, VietnameseMethod } from './vietnamese-engine';
+
+/**
+ * Type keys into an engine like the pipeline does: a key outside the word
+ * commits the pre-edit and is written itself
+ */
+function type(engine: VietnameseEngine, keys: string): string {
+  let committed = '';
+  for (const key of keys) {
+    if (!engine.process(key)) {
+      committed += engine.getPreedit() + key;
+      engine.reset();
+    }
+  }
+  return committed + engine.getPreedit();
+}
+
+function compose(method: VietnameseMethod, keys: string, toneStyle?: ToneStyle): string {
+  return type(new VietnameseEngine(method, toneStyle), keys);
+}
+
+describe('VietnameseEngine', () => {
+  it('composes Telex', () => {
+    expect(compose('telex', 'tieengs vieetj')).toBe('tiếng việt');
+    expect(compose('telex', 'dduwowngf')).toBe('đường');
+  });
+
+  it('composes VNI', () => {
+    expect(compose('vni', 'tie6ng1 vie65t')).toBe('tiếng việt');
+  });
+
+  it('composes VIQR', () => {
+    expect(compose('viqr', 'tie^\'ng vie^.t')).toBe('tiếng việt');
+  });
+
+  it('places tones by the configured style', () => {
+    expect(compose('telex', 'hoaf')).toBe('hòa');
+    expect(compose('telex', 'hoaf', 'new')).toBe('hoà');
+  });
+
+  it('undoes the last keystroke on backspace', () => {
+    const engine = new VietnameseEngine('telex');
+    type(engine, 'vieetj');
+
+    expect(engine.backspace()).toBe(true);
+    expect(engine.getPreedit()).toBe('viêt');
+  });
+
+  it('has no word to edit after a reset', () => {
+    const engine = new VietnameseEngine('telex');
+    type(engine, 'ab');
+    engine.reset();
+
+    expect(engine.backspace()).toBe(false);
+    expect(engine.getPreedit()).toBe('');
+  });
+});
@@ -0,0 +1,383 @@
+/**
+ * Vietnamese Engine
+ * Telex, VNI and VIQR input: the word is rebuilt from its keystrokes and
+ * the tone mark is placed on the right vowel as it grows
+ */
+
+import type { Language } from './ime-detector';
+import type { InputEngine } from './input-engine';
+
+export type VietnameseMethod = 'telex' | 'vni' | 'viqr';
+
+/**
+ * Where the tone goes in open oa, oe and uy syllables
+ * - old: on the first vowel (hòa, khỏe, thúy)
+ * - new: on the main vowel (hoà, khoẻ, thuý)
+ */
+export type ToneStyle = 'old' | 'new';
+
+export const TONE_STYLES: readonly ToneStyle[] = ['old', 'new'];
+
+type Mark = 'circumflex' | 'breve' | 'horn' | 'stroke';
+type Tone = 'acute' | 'grave' | 'hook' | 'tilde' | 'dot';
+
+interface Letter {
+  base: string;
+  upper: boolean;
+  mark: Mark | null;
+}
+
+interface Word {
+  letters: Letter[];
+  tone: Tone | null;
+
+  /**
+   * A transform was undone by repeating its key; the rest is literal
+   */
+  escaped: boolean;
+
+  /**
+   * VIQR backslash: the next key is taken literally
+   */
+  literalNext: boolean;
+
+  /**
+   * Last transform, so repeating its key can undo it
+   */
+  last: { key: string; letters: Letter[]; tone: Tone | null } | null;
+}
+
+interface MethodKeys {
+  /**
+   * Tone keys; null removes the tone
+   */
+  tones: Record<string, Tone | null>;
+
+  /**
+   * Mark keys, with the mark they give each base letter
+   */
+  marks: Record<string, Record<string, Mark>>;
+}
+
+const METHODS: Record<VietnameseMethod, MethodKeys> = {
+  telex: {
+    tones: { s: 'acute', f: 'grave', r: 'hook', x: 'tilde', j: 'dot', z: null },
+    marks: {
+      a: { a: 'circumflex' },
+      e: { e: 'circumflex' },
+      o: { o: 'circumflex' },
+      w: { u: 'horn', o: 'horn', a: 'breve' },
+      d: { d: 'stroke' },
+    },
+  },
+  vni: {
+    tones: { '1': 'acute', '2': 'grave', '3': 'hook', '4': 'tilde', '5': 'dot', '0': null },
+    marks: {
+      '6': { a: 'circumflex', e: 'circumflex', o: 'circumflex' },
+      '7': { u: 'horn', o: 'horn' },
+      '8': { a: 'breve' },
+      '9': { d: 'stroke' },
+    },
+  },
+  viqr: {
+    tones: { "'": 'acute', '`': 'grave', '?': 'hook', '~': 'tilde', '.': 'dot' },
+    marks: {
+      '^': { a: 'circumflex', e: 'circumflex', o: 'circumflex' },
+      '(': { a: 'breve' },
+      '+': { u: 'horn', o: 'horn' },
+      '*': { u: 'horn', o: 'horn' },
+      d: { d: 'stroke' },
+    },
+  },
+};
+
+/**
+ * Combining characters; NFC turns base + marks into the precomposed letter
+ */
+const MARK_CHARS: Record<Exclude<Mark, 'stroke'>, string> = {
+  circumflex: '\u0302',
+  breve: '\u0306',
+  horn: '\u031b',
+};
+
+const TONE_CHARS: Record<Tone, string> = {
+  acute: '\u0301',
+  grave: '\u0300',
+  hook: '\u0309',
+  tilde: '\u0303',
+  dot: '\u0323',
+};
+
+const VOWELS = 'aeiouy';
+
+export class VietnameseEngine implements InputEngine {
+  public readonly name: VietnameseMethod;
+  public readonly language: Language = 'vietnamese';
+  private toneStyle: ToneStyle;
+  private keys: string[] = [];
+  private word: Word = emptyWord();
+
+  constructor(method: VietnameseMethod, toneStyle: ToneStyle = 'old') {
+    this.name = method;
+    this.toneStyle = toneStyle;
+  }
+
+  public process(char: string): boolean {
+    if (!this.apply(this.word, char)) {
+      return false;
+    }
+
+    this.keys.push(char);
+    return true;
+  }
+
+  public backspace(): boolean {
+    if (this.keys.length === 0) {
+      return false;
+    }
+
+    // Replay the word without its last keystroke
+    this.keys.pop();
+    this.word = emptyWord();
+    for (const key of this.keys) {
+      this.apply(this.word, key);
+    }
+    return true;
+  }
+
+  public takeCommit(): string {
+    // Words are only committed by a key outside the word
+    return '';
+  }
+
+  public getPreedit(): string {
+    const word = this.word;
+    const position = word.tone ? this.tonePosition(word.letters) : -1;
+    const text = word.letters.map((letter, i) => render(letter, i === position ? word.tone : null)).join('');
+    return word.literalNext ? text + '\\' : text;
+  }
+
+  public reset(): void {
+    this.keys = [];
+    this.word = emptyWord();
+  }
+
+  /**
+   * Apply one keystroke to a word; false if it isn't part of the word
+   */
+  private apply(word: Word, char: string): boolean {
+    const key = char.toLowerCase();
+    const isLetter = /^[a-z]$/i.test(char);
+
+    if (word.literalNext) {
+      word.literalNext = false;
+      word.letters.push(literal(char));
+      return true;
+    }
+
+    if (this.name === 'viqr' && char === '\\') {
+      word.literalNext = true;
+      return true;
+    }
+
+    if (!word.escaped) {
+      // Repeating a transform's key undoes it: aa → â, aaa → aa
+      if (word.last && word.last.key === key) {
+        word.letters = word.last.letters;
+        word.tone = word.last.tone;
+        word.letters.push(literal(char));
+        word.escaped = true;
+        word.last = null;
+        return true;
+      }
+
+      if (this.transform(word, char, key)) {
+        return true;
+      }
+    }
+
+    const method = METHODS[this.name];
+    const isMethodKey = key in method.tones || key in method.marks;
+
+    if (isLetter || (word.escaped && isMethodKey && word.letters.length > 0)) {
+      word.letters.push(literal(char));
+      word.last = null;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Apply a tone or mark key; false if it has nothing to apply to
+   */
+  private transform(word: Word, char: string, key: string): boolean {
+    const method = METHODS[this.name];
+    const before = { key, letters: word.letters.map((letter) => ({ ...letter })), tone: word.tone };
+
+    if (key in method.tones) {
+      const tone = method.tones[key];
+      if (findNucleus(word.letters) && (tone || word.tone)) {
+        word.tone = tone;
+        word.last = before;
+        return true;
+      }
+      return false;
+    }
+
+    const marks = method.marks[key];
+    if (!marks) {
+      return false;
+    }
+
+    const targets = markTargets(word.letters, marks);
+    if (targets.length > 0) {
+      for (const i of targets) {
+        word.letters[i] = { ...word.letters[i], mark: marks[word.letters[i].base] };
+      }
+      word.last = before;
+      return true;
+    }
+
+    // Telex w on its own is ư
+    if (this.name === 'telex' && key === 'w' && !findNucleus(word.letters)) {
+      word.letters.push({ base: 'u', upper: char !== key, mark: 'horn' });
+      word.last = before;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Index of the vowel that carries the tone, or -1
+   */
+  private tonePosition(letters: Letter[]): number {
+    const nucleus = findNucleus(letters);
+    if (!nucleus) {
+      return -1;
+    }
+
+    const [start, end] = nucleus;
+
+    // A vowel with a mark wins; the last one in ươ
+    for (let i = end - 1; i >= start; i--) {
+      if (letters[i].mark) {
+        return i;
+      }
+    }
+
+    const count = end - start;
+    if (count >= 3) {
+      return start + 1;
+    }
+
+    if (count === 2) {
+      if (end < letters.length) {
+        return start + 1;
+      }
+
+      const pair = letters[start].base + letters[start + 1].base;
+      if (this.toneStyle === 'new' && (pair === 'oa' || pair === 'oe' || pair === 'uy')) {
+        return start + 1;
+      }
+    }
+
+    return start;
+  }
+}
+
+function emptyWord(): Word {
+  return { letters: [], tone: null, escaped: false, literalNext: false, last: null };
+}
+
+function literal(char: string): Letter {
+  const base = char.toLowerCase();
+  return { base, upper: base !== char, mark: null };
+}
+
+function isVowel(letter: Letter | undefined): boolean {
+  return !!letter && letter.base.length === 1 && VOWELS.includes(letter.base);
+}
+
+/**
+ * Range [start, end) of the syllable's vowels
+ * The u of qu and the i of gi belong to the initial consonant
+ */
+function findNucleus(letters: Letter[]): [number, number] | null {
+  let start = 0;
+  while (start < letters.length && !isVowel(letters[start])) {
+    start++;
+  }
+  if (start === letters.length) {
+    return null;
+  }
+
+  const next = letters[start + 1];
+  if (isVowel(next)) {
+    const previous = letters[start - 1]?.base;
+    const current = letters[start].base;
+    if ((previous === 'q' && current === 'u') || (start === 1 && previous === 'g' && current === 'i')) {
+      start++;
+    }
+  }
+
+  let end = start;
+  while (end < letters.length && isVowel(letters[end])) {
+    end++;
+  }
+  return [start, end];
+}
+
+/**
+ * Letters a mark key applies to
+ */
+function markTargets(letters: Letter[], marks: Record<string, Mark>): number[] {
+  if (marks.d) {
+    return letters[0]?.base === 'd' && letters[0].mark !== 'stroke' ? [0] : [];
+  }
+
+  const nucleus = findNucleus(letters);
+  if (!nucleus) {
+    return [];
+  }
+
+  const [start, end] = nucleus;
+
+  // uo takes the horn on both vowels: ươ
+  if (marks.u === 'horn') {
+    for (let i = start; i < end - 1; i++) {
+      if (letters[i].base === 'u' && letters[i + 1].base === 'o' && letters[i + 1].mark !== 'horn') {
+        return [i, i + 1];
+      }
+    }
+  }
+
+  for (let i = end - 1; i >= start; i--) {
+    const mark = marks[letters[i].base];
+    if (mark && letters[i].mark !== mark) {
+      return [i];
+    }
+  }
+  return [];
+}
+
+/**
+ * Precomposed text of a letter with its mark and tone
+ */
+function render(letter: Letter, tone: Tone | null): string {
+  if (letter.mark === 'stroke') {
+    return letter.upper ? 'Đ' : 'đ';
+  }
+
+  let text = letter.base;
+  if (letter.mark) {
+    text += MARK_CHARS[letter.mark];
+  }
+  if (tone) {
+    text += TONE_CHARS[tone];
+  }
+
+  text = text.normalize('NFC');
+  return letter.upper ? text.toUpperCase() : text;
+}